@@ -1,19 +1,52 @@
 import fs from 'fs/promises';
+import { watch, FSWatcher } from 'fs';
+import path from 'path';
 import { EmailProvider } from './providers/base.js';
 import { GmailProvider } from './providers/gmail.js';
 import { OutlookProvider } from './providers/outlook.js';
 import { IMAPProvider } from './providers/imap.js';
+import { RequestScheduler } from './providers/scheduler.js';
+import {
+  AccountUnavailableError,
+  AuthExpiredError,
+  classifyError,
+  ConflictError,
+  errorCode,
+  InvalidRequestError,
+  MailError,
+  NotFoundError,
+} from './errors.js';
+import { decodeCursor, encodeCursor } from './cursor.js';
+import { MailCache, CacheOptions } from './cache/index.js';
 import {
   AccountConfig,
+  AccountPolicy,
   AccountsFile,
   UnifiedEmail,
+  UnifiedSearchResult,
+  UnifiedFoldersResult,
+  AccountFolders,
+  AccountOutcome,
   Email,
   SearchOptions,
+  SearchResult,
   SendOptions,
-  Folder,
+  ReplyOptions,
+  ForwardOptions,
+  DraftOptions,
+  Draft,
+  FlagOptions,
+  Attachment,
+  AttachmentContent,
+  AccountStatus,
+  ConnectionHealth,
+  BulkAction,
+  BulkTarget,
+  UnifiedBulkItemResult,
   GmailConfig,
   OutlookConfig,
   IMAPConfig,
+  SchedulerLimits,
 } from './types.js';
 
 const logger = {
@@ -33,74 +66,331 @@ interface ConnectedAccount {
   provider: EmailProvider;
 }
 
+// 'disconnecting' comes before a provider is replaced or removed, so watches can stop cleanly
+export type AccountChange = 'connected' | 'disconnecting' | 'removed';
+export type AccountListener = (accountId: string, change: AccountChange) => Promise<void> | void;
+
+const RELOAD_DEBOUNCE_MS = 500;
+
+// Per-account request limits, well inside each provider's published quotas.
+// IMAP runs one command at a time on the tool connection anyway.
+const DEFAULT_LIMITS: Record<string, SchedulerLimits> = {
+  gmail: { maxConcurrent: 10, requestsPerSecond: 40 },
+  outlook: { maxConcurrent: 4, requestsPerSecond: 10 },
+  imap: { maxConcurrent: 1, requestsPerSecond: 20 },
+};
+
+// Replace ${VAR} references with environment values
+function resolveEnvVars(content: string): string {
+  return content.replace(/\$\{(\w+)\}/g, (match, name) => {
+    const value = process.env[name];
+    if (value === undefined || value === '') {
+      logger.warn(`Environment variable ${name} is not set or empty`);
+      return '';
+    }
+    return value;
+  });
+}
+
+/**
+ * Validates that sensitive fields use environment variables (${VAR} syntax)
+ * Throws an error if plaintext secrets are detected
+ */
+function validateSecrets(accounts: AccountConfig[]): void {
+  for (const account of accounts) {
+    const sensitiveFields = SENSITIVE_FIELDS[account.provider] || [];
+    const accountConfig = account.config as unknown as Record<string, unknown>;
+
+    for (const field of sensitiveFields) {
+      const value = accountConfig[field];
+      if (typeof value === 'string' && value.length > 0) {
+        // Check if it's using environment variable syntax
+        if (!value.startsWith('${') || !value.endsWith('}')) {
+          throw new InvalidRequestError(
+            `SECURITY ERROR: Account "${account.id}" has plaintext secret in field "${field}". ` +
+            `Use environment variable syntax: "\${ENV_VAR_NAME}" instead of hardcoding secrets.`
+          );
+        }
+      }
+    }
+  }
+}
+
+// Resolves the ${VAR} references of an account's secret fields; a reference anywhere else is refused
+function resolveSecrets(account: AccountConfig): AccountConfig {
+  const sensitiveFields = SENSITIVE_FIELDS[account.provider] || [];
+  const config = { ...(account.config as unknown as Record<string, unknown>) };
+  const settings = Object.entries(config).filter(([field]) => !sensitiveFields.includes(field));
+  if (/\$\{\w+\}/.test(JSON.stringify({ ...account, config: Object.fromEntries(settings) }))) {
+    throw new InvalidRequestError(`Account "${account.id}" may only reference environment variables in its secrets`);
+  }
+
+  for (const field of sensitiveFields) {
+    if (typeof config[field] === 'string') config[field] = resolveEnvVars(config[field] as string);
+  }
+  return { ...account, config: config as unknown as AccountConfig['config'] };
+}
+
+/**
+ * Reads accounts.json: rejects plaintext secrets, then resolves ${VAR} references.
+ * Shared by the server and the auth CLI.
+ */
+export async function readAccountsFile(configPath: string): Promise<AccountsFile> {
+  const content = await fs.readFile(configPath, 'utf-8');
+
+  // Validate secrets BEFORE replacing env vars
+  validateSecrets((JSON.parse(content) as AccountsFile).accounts);
+
+  return JSON.parse(resolveEnvVars(content));
+}
+
+// Same provider, settings and request limits: nothing to reconnect
+function sameConnection(a: AccountConfig, b: AccountConfig): boolean {
+  return (
+    a.provider === b.provider &&
+    JSON.stringify(a.config) === JSON.stringify(b.config) &&
+    JSON.stringify(a.limits) === JSON.stringify(b.limits)
+  );
+}
+
+// Same mailbox, possibly with new secrets: the cached messages stay valid
+function sameMailbox(a: AccountConfig, b: AccountConfig): boolean {
+  if (a.provider !== b.provider) return false;
+  const withoutSecrets = (account: AccountConfig) => {
+    const config = { ...(account.config as unknown as Record<string, unknown>) };
+    for (const field of SENSITIVE_FIELDS[account.provider] || []) delete config[field];
+    return JSON.stringify(config);
+  };
+  return withoutSecrets(a) === withoutSecrets(b);
+}
+
 export class AccountManager {
   private accounts: Map<string, ConnectedAccount> = new Map();
   private defaultAccountId: string | null = null;
+  private cache: MailCache | null = null;
+
+  private configPath: string | null = null;
+  private configFile: AccountsFile = { accounts: [] };
+  private configWatcher: FSWatcher | null = null;
+  // Runtime changes from add_account / remove_account, layered over accounts.json until restart
+  private addedAccounts = new Map<string, AccountConfig>();
+  private removedAccounts = new Set<string>();
+  // Every configured account, connected or not, and why the others failed
+  private configured = new Map<string, AccountConfig>();
+  private failures = new Map<string, ConnectionHealth>();
+  private listeners = new Set<AccountListener>();
+  // Account changes run one at a time
+  private updating: Promise<void> = Promise.resolve();
+
+  // Optional local message cache; call before loadAccounts so every account starts syncing
+  enableCache(options: CacheOptions): void {
+    this.cache = new MailCache(options);
+  }
 
   async loadAccounts(configPath: string): Promise<void> {
-    const content = await fs.readFile(configPath, 'utf-8');
+    this.configPath = configPath;
+    await this.update(async () => {
+      this.configFile = await readAccountsFile(configPath);
+      await this.sync();
+    });
+    logger.info(`Loaded ${this.accounts.size} accounts`);
+  }
 
-    // Validate secrets BEFORE replacing env vars
-    this.validateSecrets(content);
+  // Re-read accounts.json and connect or disconnect only the accounts that changed
+  async reloadAccounts(): Promise<void> {
+    const configPath = this.configPath;
+    if (!configPath) throw new Error('No accounts file loaded');
 
-    // Replace environment variables
-    const resolved = content.replace(/\$\{(\w+)\}/g, (match, name) => {
-      const value = process.env[name];
-      if (value === undefined || value === '') {
-        logger.warn(`Environment variable ${name} is not set or empty`);
-        return '';
+    await this.update(async () => {
+      this.configFile = await readAccountsFile(configPath);
+      await this.sync();
+    });
+    logger.info(`Reloaded accounts: ${this.accounts.size} connected`);
+  }
+
+  // Reload whenever accounts.json changes; a broken file is logged and the current accounts stay
+  watchConfig(): void {
+    if (!this.configPath || this.configWatcher) return;
+
+    const file = path.basename(this.configPath);
+    let timer: NodeJS.Timeout | undefined;
+    // Watch the directory: editors and secret mounts replace the file instead of writing to it
+    this.configWatcher = watch(path.dirname(this.configPath), (_event, filename) => {
+      if (filename && filename !== file) return;
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        this.reloadAccounts().catch((error) => logger.error('Failed to reload accounts:', error));
+      }, RELOAD_DEBOUNCE_MS);
+    });
+    logger.info(`Watching ${this.configPath} for changes`);
+  }
+
+  /**
+   * Add an account for this process; add it to accounts.json to keep it after a restart.
+   * Secrets follow the accounts.json rules: ${VAR} references, never plaintext. References
+   * are resolved in the secret fields only, so no other setting can carry a variable's value.
+   */
+  async addAccount(input: AccountConfig): Promise<void> {
+    if (!input?.id || !input.name || !input.provider || !input.config) {
+      throw new InvalidRequestError('Account needs id, name, provider and config');
+    }
+    validateSecrets([input]);
+    const account = resolveSecrets(input);
+
+    await this.update(async () => {
+      if (this.configured.has(account.id)) throw new ConflictError(`Account already exists: ${account.id}`);
+
+      this.addedAccounts.set(account.id, account);
+      this.removedAccounts.delete(account.id);
+      await this.sync();
+
+      if (this.failures.has(account.id)) {
+        // Do not keep an account that never worked
+        const error = this.unavailable(account.id);
+        this.addedAccounts.delete(account.id);
+        await this.sync();
+        throw error;
       }
-      return value;
     });
+  }
 
-    const config: AccountsFile = JSON.parse(resolved);
+  // Disconnect an account until restart (or until it is added again)
+  async removeAccount(accountId: string): Promise<void> {
+    await this.update(async () => {
+      if (!this.configured.has(accountId)) throw new NotFoundError(`Account not found: ${accountId}`);
 
-    for (const account of config.accounts) {
-      try {
-        this.validateResolvedSecrets(account);
-        const provider = await this.createProvider(account);
-        await provider.connect();
+      if (!this.addedAccounts.delete(accountId)) this.removedAccounts.add(accountId);
+      await this.sync();
+    });
+  }
 
-        this.accounts.set(account.id, { config: account, provider });
-        logger.info(`Connected: ${account.name} (${account.provider})`);
+  // Open a fresh connection; the old one keeps serving until the new one is up
+  async reconnectAccount(accountId: string): Promise<void> {
+    await this.update(async () => {
+      const account = this.configured.get(accountId);
+      if (!account) throw new NotFoundError(`Account not found: ${accountId}`);
 
-        if (account.default) {
-          this.defaultAccountId = account.id;
-        }
-      } catch (error) {
-        logger.error(`Failed to connect ${account.name}:`, error);
+      await this.connectAccount(account);
+      if (this.failures.has(accountId)) throw this.unavailable(accountId);
+    });
+  }
+
+  // Called for every account connected, about to be disconnected, or removed
+  onAccountChange(listener: AccountListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private update(task: () => Promise<void>): Promise<void> {
+    const run = this.updating.then(task);
+    this.updating = run.catch(() => {});
+    return run;
+  }
+
+  // accounts.json plus runtime additions, minus runtime removals
+  private desiredAccounts(): Map<string, AccountConfig> {
+    const desired = new Map<string, AccountConfig>();
+    const { defaultPolicy } = this.configFile;
+
+    for (const account of [...this.configFile.accounts, ...this.addedAccounts.values()]) {
+      if (this.removedAccounts.has(account.id)) continue;
+      desired.set(account.id, { ...account, policy: account.policy ?? defaultPolicy });
+    }
+    return desired;
+  }
+
+  // Bring the connected accounts in line with the desired configuration
+  private async sync(): Promise<void> {
+    const desired = this.desiredAccounts();
+
+    for (const id of this.configured.keys()) {
+      if (!desired.has(id)) await this.dropAccount(id);
+    }
+
+    for (const [id, account] of desired) {
+      const previous = this.configured.get(id);
+      const connected = this.accounts.get(id);
+
+      if (previous && connected && sameConnection(previous, account)) {
+        // Name, default or policy changes apply without reconnecting
+        this.configured.set(id, account);
+        this.accounts.set(id, { config: account, provider: connected.provider });
+        continue;
       }
+
+      // New, changed, or failed before: (re)connect
+      await this.connectAccount(account);
+    }
+
+    const ids = Array.from(desired.keys()).filter((id) => this.accounts.has(id));
+    this.defaultAccountId = ids.find((id) => desired.get(id)!.default) ?? ids[0] ?? null;
+  }
+
+  private async connectAccount(account: AccountConfig): Promise<void> {
+    const previous = this.configured.get(account.id);
+    this.configured.set(account.id, account);
+
+    let provider: EmailProvider | undefined;
+    try {
+      this.validateResolvedSecrets(account);
+      provider = await this.createProvider(account);
+      await provider.connect();
+    } catch (error) {
+      // A working connection is kept until its replacement connects
+      this.failures.set(account.id, {
+        status:
+          provider?.getHealth().status === 'auth-expired' || classifyError(error) instanceof AuthExpiredError
+            ? 'auth-expired'
+            : 'disconnected',
+        since: new Date().toISOString(),
+        error: error instanceof Error ? error.message : 'Unknown',
+      });
+      logger.error(`Failed to connect ${account.name}:`, error);
+      return;
     }
+    this.failures.delete(account.id);
 
-    if (!this.defaultAccountId && this.accounts.size > 0) {
-      this.defaultAccountId = this.accounts.keys().next().value!;
+    const old = this.accounts.get(account.id);
+    if (old) {
+      await this.emit(account.id, 'disconnecting');
+      await this.disconnectProvider(account.id, old.provider);
     }
+    if (previous && !sameMailbox(previous, account)) this.cache?.remove(account.id);
 
-    logger.info(`Loaded ${this.accounts.size} accounts`);
+    this.accounts.set(account.id, { config: account, provider });
+    logger.info(`${old ? 'Reconnected' : 'Connected'}: ${account.name} (${account.provider})`);
+    this.cache?.prefetch(account.id, provider);
+    await this.emit(account.id, 'connected');
   }
 
-  /**
-   * Validates that sensitive fields use environment variables (${VAR} syntax)
-   * Throws an error if plaintext secrets are detected
-   */
-  private validateSecrets(rawContent: string): void {
-    const config: AccountsFile = JSON.parse(rawContent);
-
-    for (const account of config.accounts) {
-      const sensitiveFields = SENSITIVE_FIELDS[account.provider] || [];
-      const accountConfig = account.config as unknown as Record<string, unknown>;
-
-      for (const field of sensitiveFields) {
-        const value = accountConfig[field];
-        if (typeof value === 'string' && value.length > 0) {
-          // Check if it's using environment variable syntax
-          if (!value.startsWith('${') || !value.endsWith('}')) {
-            throw new Error(
-              `SECURITY ERROR: Account "${account.id}" has plaintext secret in field "${field}". ` +
-              `Use environment variable syntax: "\${ENV_VAR_NAME}" instead of hardcoding secrets.`
-            );
-          }
-        }
+  private async dropAccount(accountId: string): Promise<void> {
+    const acc = this.accounts.get(accountId);
+    if (acc) {
+      await this.emit(accountId, 'disconnecting');
+      await this.disconnectProvider(accountId, acc.provider);
+      this.accounts.delete(accountId);
+    }
+    this.configured.delete(accountId);
+    this.failures.delete(accountId);
+    this.cache?.remove(accountId);
+    logger.info(`Removed: ${accountId}`);
+    await this.emit(accountId, 'removed');
+  }
+
+  private async disconnectProvider(accountId: string, provider: EmailProvider): Promise<void> {
+    try {
+      await provider.disconnect();
+    } catch (error) {
+      logger.error(`Error disconnecting ${accountId}:`, error);
+    }
+  }
+
+  private async emit(accountId: string, change: AccountChange): Promise<void> {
+    for (const listener of this.listeners) {
+      try {
+        await listener(accountId, change);
+      } catch (error) {
+        logger.error(`Account listener failed (${accountId} ${change}):`, error);
       }
     }
   }
@@ -124,16 +414,22 @@ export class AccountManager {
   }
 
   private async createProvider(account: AccountConfig): Promise<EmailProvider> {
+    let provider: EmailProvider;
     switch (account.provider) {
       case 'gmail':
-        return new GmailProvider(account.config as GmailConfig);
+        provider = new GmailProvider(account.config as GmailConfig);
+        break;
       case 'outlook':
-        return new OutlookProvider(account.config as OutlookConfig);
+        provider = new OutlookProvider(account.config as OutlookConfig);
+        break;
       case 'imap':
-        return new IMAPProvider(account.config as IMAPConfig);
+        provider = new IMAPProvider(account.config as IMAPConfig);
+        break;
       default:
         throw new Error(`Unknown provider: ${account.provider}`);
     }
+    provider.useScheduler(new RequestScheduler(account.id, { ...DEFAULT_LIMITS[account.provider], ...account.limits }));
+    return provider;
   }
 
   // Get all accounts info
@@ -146,54 +442,109 @@ export class AccountManager {
     }));
   }
 
+  // Every configured account with its connection state, including accounts that failed to connect
+  getAccountStatus(): AccountStatus[] {
+    return Array.from(this.configured.values()).map((account) => {
+      const connected = this.accounts.get(account.id);
+      const health = connected?.provider.getHealth() ?? this.failures.get(account.id);
+      return {
+        id: account.id,
+        name: account.name,
+        provider: account.provider,
+        isDefault: account.id === this.defaultAccountId,
+        status: health?.status ?? 'disconnected',
+        since: health?.since,
+        error: health?.error,
+      };
+    });
+  }
+
   // Get specific provider
   getProvider(accountId?: string): ConnectedAccount {
     const id = accountId || this.defaultAccountId;
-    if (!id) throw new Error('No account specified and no default set');
+    if (!id) throw new InvalidRequestError('No account specified and no default set');
 
     const account = this.accounts.get(id);
-    if (!account) throw new Error(`Account not found: ${id}`);
+    if (!account) throw this.unavailable(id);
 
     return account;
   }
 
-  // === UNIFIED OPERATIONS ===
+  // Why an account has no provider: unknown, or configured but not connected
+  private unavailable(id: string): MailError {
+    if (!this.configured.has(id)) return new NotFoundError(`Account not found: ${id}`);
+    const failure = this.failures.get(id);
+    const message = `Account ${id} is not connected${failure?.error ? `: ${failure.error}` : ''}`;
+    return failure?.status === 'auth-expired' ? new AuthExpiredError(message) : new AccountUnavailableError(message);
+  }
 
-  // Fetch unread from ALL accounts
-  async fetchAllUnread(maxResultsPerAccount = 10): Promise<UnifiedEmail[]> {
-    const results: UnifiedEmail[] = [];
+  // Configured accounts keep their policy while disconnected
+  getPolicy(accountId?: string): AccountPolicy | undefined {
+    const id = accountId || this.defaultAccountId;
+    return id ? this.configured.get(id)?.policy : undefined;
+  }
 
-    const promises = Array.from(this.accounts.entries()).map(async ([id, acc]) => {
-      try {
-        const emails = await acc.provider.fetchUnread(maxResultsPerAccount);
-        return emails.map((email) => this.tagEmail(email, acc.config));
-      } catch (error) {
-        logger.error(`Error fetching from ${acc.config.name}:`, error);
-        return [];
-      }
-    });
+  // IDs of every configured account, connected or not
+  getAccountIds(): string[] {
+    return Array.from(this.configured.keys());
+  }
 
-    const allResults = await Promise.all(promises);
-    for (const emails of allResults) {
-      results.push(...emails);
-    }
+  // === UNIFIED OPERATIONS ===
 
-    // Sort by date descending
-    results.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  // Unified operations run on ALL configured accounts, or only on accountIds when given.
+  // Each reports how every account fared: accounts that failed or are not connected come
+  // back with an error code instead of silently contributing no results.
 
-    return results;
+  // Fetch unread from ALL accounts
+  async fetchAllUnread(
+    maxResultsPerAccount = 10,
+    cursor?: string,
+    accountIds?: string[]
+  ): Promise<UnifiedSearchResult> {
+    return this.collectPages(cursor, accountIds, 'fetching from', (acc, accountCursor) =>
+      acc.provider.fetchUnread(maxResultsPerAccount, accountCursor)
+    );
   }
 
   // Search across ALL accounts
-  async searchAll(options: SearchOptions): Promise<UnifiedEmail[]> {
+  async searchAll(options: SearchOptions, accountIds?: string[]): Promise<UnifiedSearchResult> {
+    return this.collectPages(options.cursor, accountIds, 'searching', (acc, accountCursor) =>
+      this.searchAccount(acc, { ...options, cursor: accountCursor })
+    );
+  }
+
+  // The local cache answers when it can; otherwise the provider searches live
+  private async searchAccount(acc: ConnectedAccount, options: SearchOptions): Promise<SearchResult> {
+    const cached = await this.cache?.search(acc.config.id, acc.provider, options);
+    return cached ?? acc.provider.search(options);
+  }
+
+  // The composite cursor maps each account to its own next cursor, or null once exhausted
+  private async collectPages(
+    cursor: string | undefined,
+    accountIds: string[] | undefined,
+    action: string,
+    fetchPage: (acc: ConnectedAccount, accountCursor?: string) => Promise<SearchResult>
+  ): Promise<UnifiedSearchResult> {
+    const state = cursor ? decodeCursor<Record<string, string | null>>(cursor) : null;
+    const next: Record<string, string | null> = {};
     const results: UnifiedEmail[] = [];
+    const outcomes: AccountOutcome[] = [];
+
+    const promises = this.targetIds(accountIds).map(async (id) => {
+      next[id] = null;
+      // On later pages, skip exhausted accounts and ones added after the first page
+      if (state && !state[id]) return [];
 
-    const promises = Array.from(this.accounts.entries()).map(async ([id, acc]) => {
       try {
-        const emails = await acc.provider.search(options);
-        return emails.map((email) => this.tagEmail(email, acc.config));
+        const acc = this.getProvider(id);
+        const page = await fetchPage(acc, state?.[id] ?? undefined);
+        next[id] = page.nextCursor ?? null;
+        outcomes.push({ accountId: id, status: 'ok' });
+        return page.emails.map((email) => this.tagEmail(email, acc.config));
       } catch (error) {
-        logger.error(`Error searching ${acc.config.name}:`, error);
+        logger.error(`Error ${action} ${id}:`, error);
+        outcomes.push(this.failedOutcome(id, error));
         return [];
       }
     });
@@ -203,60 +554,271 @@ export class AccountManager {
       results.push(...emails);
     }
 
+    // Sort by date descending
     results.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
-    return results;
+    const hasMore = Object.values(next).some((c) => c !== null);
+    return { emails: results, nextCursor: hasMore ? encodeCursor(next) : undefined, accounts: this.inOrder(outcomes) };
   }
 
   // Get all folders from all accounts
-  async getAllFolders(): Promise<{ accountId: string; accountName: string; folders: Folder[] }[]> {
-    const results: { accountId: string; accountName: string; folders: Folder[] }[] = [];
+  async getAllFolders(accountIds?: string[]): Promise<UnifiedFoldersResult> {
+    const folders: AccountFolders[] = [];
+    const outcomes: AccountOutcome[] = [];
 
-    for (const [id, acc] of this.accounts) {
+    for (const id of this.targetIds(accountIds)) {
       try {
-        const folders = await acc.provider.getFolders();
-        results.push({
+        const acc = this.getProvider(id);
+        folders.push({
           accountId: id,
           accountName: acc.config.name,
-          folders,
+          folders: await acc.provider.getFolders(),
         });
+        outcomes.push({ accountId: id, status: 'ok' });
       } catch (error) {
-        logger.error(`Error getting folders from ${acc.config.name}:`, error);
+        logger.error(`Error getting folders from ${id}:`, error);
+        outcomes.push(this.failedOutcome(id, error));
       }
     }
 
-    return results;
+    return { folders, accounts: outcomes };
+  }
+
+  // Configured accounts a unified operation covers, in configuration order
+  private targetIds(accountIds?: string[]): string[] {
+    return this.getAccountIds().filter((id) => !accountIds || accountIds.includes(id));
+  }
+
+  private failedOutcome(accountId: string, error: unknown): AccountOutcome {
+    const typed = classifyError(error);
+    return {
+      accountId,
+      status: 'error',
+      errorCode: errorCode(typed),
+      message: typed instanceof Error ? typed.message : 'Unknown',
+    };
+  }
+
+  // Parallel calls finish in any order; report accounts in configuration order
+  private inOrder(outcomes: AccountOutcome[]): AccountOutcome[] {
+    const ids = this.getAccountIds();
+    return outcomes.sort((a, b) => ids.indexOf(a.accountId) - ids.indexOf(b.accountId));
   }
 
   // === SINGLE ACCOUNT OPERATIONS ===
 
   // These require accountId because we need to know which account to operate on
 
+  async search(accountId: string, options: SearchOptions): Promise<SearchResult<UnifiedEmail>> {
+    const acc = this.getProvider(accountId);
+    const page = await this.searchAccount(acc, options);
+    return { ...page, emails: page.emails.map((email) => this.tagEmail(email, acc.config)) };
+  }
+
   async getMessage(accountId: string, emailId: string): Promise<UnifiedEmail | null> {
     const acc = this.getProvider(accountId);
-    const email = await acc.provider.getMessage(emailId);
+    const cached = await this.cache?.getMessage(acc.config.id, acc.provider, emailId);
+    const email = cached ?? (await acc.provider.getMessage(emailId));
     if (!email) return null;
     return this.tagEmail(email, acc.config);
   }
 
+  async getThread(accountId: string, threadId: string): Promise<UnifiedEmail[]> {
+    const acc = this.getProvider(accountId);
+    const emails = await acc.provider.getThread(threadId);
+    return emails.map((email) => this.tagEmail(email, acc.config));
+  }
+
   async markAsRead(accountId: string, emailId: string): Promise<void> {
     const acc = this.getProvider(accountId);
     await acc.provider.markAsRead(emailId);
+    this.invalidateCache(acc);
   }
 
   async markAsUnread(accountId: string, emailId: string): Promise<void> {
     const acc = this.getProvider(accountId);
     await acc.provider.markAsUnread(emailId);
+    this.invalidateCache(acc);
+  }
+
+  async deleteEmail(accountId: string, emailId: string, permanent = false): Promise<string | undefined> {
+    const acc = this.getProvider(accountId);
+    const trashId = await acc.provider.deleteEmail(emailId, permanent);
+    this.invalidateCache(acc);
+    return trashId;
+  }
+
+  async restoreEmail(accountId: string, emailId: string, folderId?: string): Promise<string | undefined> {
+    const acc = this.getProvider(accountId);
+    const id = await acc.provider.restoreEmail(emailId, folderId);
+    this.invalidateCache(acc);
+    return id;
+  }
+
+  async emptyTrash(accountId: string, olderThanDays: number): Promise<number> {
+    const acc = this.getProvider(accountId);
+    const count = await acc.provider.emptyTrash(olderThanDays);
+    this.invalidateCache(acc);
+    return count;
+  }
+
+  async moveEmail(accountId: string, emailId: string, folderId: string): Promise<void> {
+    const acc = this.getProvider(accountId);
+    await acc.provider.moveEmail(emailId, folderId);
+    this.invalidateCache(acc);
   }
 
-  async deleteEmail(accountId: string, emailId: string): Promise<void> {
+  async archiveEmail(accountId: string, emailId: string): Promise<void> {
     const acc = this.getProvider(accountId);
-    await acc.provider.deleteEmail(emailId);
+    await acc.provider.archiveEmail(emailId);
+    this.invalidateCache(acc);
+  }
+
+  // One provider batch per account; results come back in the order of targets
+  async bulkAction(targets: BulkTarget[], action: BulkAction): Promise<UnifiedBulkItemResult[]> {
+    const byAccount = new Map<string, string[]>();
+    for (const { accountId, emailId } of targets) {
+      byAccount.set(accountId, [...(byAccount.get(accountId) || []), emailId]);
+    }
+
+    const outcomes = new Map<string, UnifiedBulkItemResult>();
+    const key = (accountId: string, emailId: string) => `${accountId}\u0000${emailId}`;
+
+    await Promise.all(
+      Array.from(byAccount, async ([accountId, ids]) => {
+        let results;
+        try {
+          const acc = this.getProvider(accountId);
+          results = await acc.provider.bulkAction([...new Set(ids)], action);
+          this.invalidateCache(acc);
+        } catch (error) {
+          logger.error(`Bulk ${action.type} failed for ${accountId}:`, error);
+          const { message, errorCode } = this.failedOutcome(accountId, error);
+          results = ids.map((id) => ({ id, success: false, error: message, errorCode }));
+        }
+        for (const result of results) outcomes.set(key(accountId, result.id), { ...result, accountId });
+      })
+    );
+
+    return targets.map(
+      ({ accountId, emailId }) =>
+        outcomes.get(key(accountId, emailId)) || { id: emailId, accountId, success: false, error: 'No result' }
+    );
   }
 
   async sendEmail(accountId: string | undefined, options: SendOptions): Promise<string> {
     const acc = this.getProvider(accountId);
-    return acc.provider.sendEmail(options);
+    const id = await acc.provider.sendEmail(options);
+    this.invalidateCache(acc);
+    return id;
+  }
+
+  async replyEmail(accountId: string, emailId: string, options: ReplyOptions): Promise<string> {
+    const acc = this.getProvider(accountId);
+    const id = await acc.provider.replyEmail(emailId, options);
+    this.invalidateCache(acc);
+    return id;
+  }
+
+  async forwardEmail(accountId: string, emailId: string, options: ForwardOptions): Promise<string> {
+    const acc = this.getProvider(accountId);
+    const id = await acc.provider.forwardEmail(emailId, options);
+    this.invalidateCache(acc);
+    return id;
+  }
+
+  async createDraft(accountId: string | undefined, options: DraftOptions): Promise<string> {
+    const acc = this.getProvider(accountId);
+    const id = await acc.provider.createDraft(options);
+    this.invalidateCache(acc);
+    return id;
+  }
+
+  async updateDraft(accountId: string, draftId: string, options: DraftOptions): Promise<string> {
+    const acc = this.getProvider(accountId);
+    const id = await acc.provider.updateDraft(draftId, options);
+    this.invalidateCache(acc);
+    return id;
+  }
+
+  async listDrafts(accountId: string | undefined, maxResults = 10): Promise<Draft[]> {
+    const acc = this.getProvider(accountId);
+    return acc.provider.listDrafts(maxResults);
+  }
+
+  async sendDraft(accountId: string, draftId: string): Promise<string> {
+    const acc = this.getProvider(accountId);
+    const id = await acc.provider.sendDraft(draftId);
+    this.invalidateCache(acc);
+    return id;
+  }
+
+  async deleteDraft(accountId: string, draftId: string): Promise<void> {
+    const acc = this.getProvider(accountId);
+    await acc.provider.deleteDraft(draftId);
+    this.invalidateCache(acc);
+  }
+
+  async setFlag(accountId: string, emailId: string, options: FlagOptions): Promise<void> {
+    const acc = this.getProvider(accountId);
+    await acc.provider.setFlag(emailId, options);
+    this.invalidateCache(acc);
+  }
+
+  async addLabels(accountId: string, emailId: string, labels: string[]): Promise<void> {
+    const acc = this.getProvider(accountId);
+    await acc.provider.addLabels(emailId, labels);
+    this.invalidateCache(acc);
+  }
+
+  async removeLabels(accountId: string, emailId: string, labels: string[]): Promise<void> {
+    const acc = this.getProvider(accountId);
+    await acc.provider.removeLabels(emailId, labels);
+    this.invalidateCache(acc);
+  }
+
+  async createLabel(accountId: string, name: string): Promise<string> {
+    const acc = this.getProvider(accountId);
+    return acc.provider.createLabel(name);
+  }
+
+  async deleteLabel(accountId: string, name: string): Promise<void> {
+    const acc = this.getProvider(accountId);
+    await acc.provider.deleteLabel(name);
+    this.invalidateCache(acc);
+  }
+
+  async listAttachments(accountId: string, emailId: string): Promise<Attachment[]> {
+    const acc = this.getProvider(accountId);
+    return acc.provider.listAttachments(emailId);
+  }
+
+  async getAttachment(accountId: string, emailId: string, attachmentId: string): Promise<AttachmentContent> {
+    const acc = this.getProvider(accountId);
+    return acc.provider.getAttachment(emailId, attachmentId);
+  }
+
+  // Start watching a folder; resolves to a function that stops the watch
+  async watchMailbox(
+    accountId: string,
+    folder: string,
+    onMail: (emails: UnifiedEmail[]) => void,
+    pollIntervalMs: number
+  ): Promise<() => Promise<void>> {
+    const acc = this.getProvider(accountId);
+    return acc.provider.watch(
+      folder,
+      (emails) => {
+        this.invalidateCache(acc);
+        onMail(emails.map((email) => this.tagEmail(email, acc.config)));
+      },
+      pollIntervalMs
+    );
+  }
+
+  // Changes made through this server make the next cached read sync first
+  private invalidateCache(acc: ConnectedAccount): void {
+    this.cache?.invalidate(acc.config.id);
   }
 
   // Helper to tag email with account info
@@ -271,6 +833,8 @@ export class AccountManager {
 
   // Cleanup
   async disconnect(): Promise<void> {
+    this.configWatcher?.close();
+    this.configWatcher = null;
     for (const [id, acc] of this.accounts) {
       try {
         await acc.provider.disconnect();
@@ -279,5 +843,6 @@ export class AccountManager {
       }
     }
     this.accounts.clear();
+    this.cache?.close();
   }
 }
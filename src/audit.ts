@@ -0,0 +1,161 @@
+import fs from 'fs/promises';
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+
+const logger = {
+  info: (...args: unknown[]) => console.error('[Audit]', ...args),
+  error: (...args: unknown[]) => console.error('[Audit ERROR]', ...args),
+};
+
+// Account settings never written to the log
+const SECRET_FIELDS = ['password', 'clientSecret'];
+
+export interface AuditOptions {
+  path: string;
+  // Rotate to <path>.1, <path>.2, ... once the file exceeds this size; 0 disables rotation
+  maxBytes?: number;
+  // Rotated files kept next to the live one
+  maxFiles?: number;
+  // Replace message bodies with their length
+  redactBodies?: boolean;
+}
+
+export interface AuditEntry {
+  timestamp: string;
+  tool: string;
+  accountId?: string;
+  arguments: Record<string, unknown>;
+  outcome: 'success' | 'error';
+  resultId?: string;
+  error?: string;
+  client?: { name: string; version: string };
+  sessionId?: string;
+}
+
+export interface AuditQuery {
+  accountId?: string;
+  tool?: string;
+  since?: Date;
+  until?: Date;
+  limit: number;
+}
+
+/**
+ * Append-only JSONL record of every mailbox-changing tool call, one entry per line.
+ * Writes are serialized so rotation never races an append.
+ */
+export class AuditLog {
+  private writing: Promise<void> = Promise.resolve();
+  private maxFiles: number;
+
+  constructor(private options: AuditOptions) {
+    this.maxFiles = Math.max(1, options.maxFiles ?? 5);
+  }
+
+  record(entry: Omit<AuditEntry, 'timestamp' | 'arguments'> & { arguments?: Record<string, unknown> }): Promise<void> {
+    const line = JSON.stringify({
+      timestamp: new Date().toISOString(),
+      ...entry,
+      arguments: this.sanitize(entry.arguments || {}),
+    });
+
+    this.writing = this.writing
+      .then(async () => {
+        await this.rotateIfNeeded();
+        await fs.appendFile(this.options.path, line + '\n', { mode: 0o600 });
+      })
+      .catch((error) => logger.error('Failed to write audit entry:', error));
+    return this.writing;
+  }
+
+  // Matching entries, newest first
+  async query(filter: AuditQuery): Promise<AuditEntry[]> {
+    await this.writing;
+
+    const matches: AuditEntry[] = [];
+    // Oldest rotated file first, live file last
+    const files = Array.from({ length: this.maxFiles }, (_, i) => `${this.options.path}.${this.maxFiles - i}`);
+    files.push(this.options.path);
+
+    for (const file of files) {
+      try {
+        await fs.access(file);
+      } catch {
+        continue;
+      }
+
+      const lines = createInterface({ input: createReadStream(file, 'utf-8'), crlfDelay: Infinity });
+      for await (const line of lines) {
+        if (!line.trim()) continue;
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          continue;
+        }
+        if (!this.matches(entry, filter)) continue;
+        matches.push(entry);
+        if (matches.length > filter.limit) matches.shift();
+      }
+    }
+
+    return matches.reverse();
+  }
+
+  private matches(entry: AuditEntry, filter: AuditQuery): boolean {
+    if (filter.accountId && entry.accountId !== filter.accountId) return false;
+    if (filter.tool && entry.tool !== filter.tool) return false;
+    const time = new Date(entry.timestamp).getTime();
+    if (filter.since && time < filter.since.getTime()) return false;
+    if (filter.until && time > filter.until.getTime()) return false;
+    return true;
+  }
+
+  // Attachment content and account secrets are never logged; bodies only when redaction is off
+  private sanitize(args: Record<string, unknown>): Record<string, unknown> {
+    const { confirmationToken: _token, ...rest } = args;
+    const result: Record<string, unknown> = { ...rest };
+
+    if (Array.isArray(rest.attachments)) {
+      result.attachments = rest.attachments.map((a) => ({
+        filename: a?.filename,
+        path: a?.path,
+        mimeType: a?.mimeType,
+      }));
+    }
+    // add_account takes secrets as values
+    const account = rest.account as { config?: Record<string, unknown> } | undefined;
+    if (account?.config && typeof account.config === 'object') {
+      const config = { ...account.config };
+      for (const field of SECRET_FIELDS) {
+        if (field in config) config[field] = '[redacted]';
+      }
+      result.account = { ...account, config };
+    }
+    if (this.options.redactBodies && typeof rest.body === 'string') {
+      result.body = `[redacted: ${rest.body.length} chars]`;
+    }
+
+    return result;
+  }
+
+  private async rotateIfNeeded(): Promise<void> {
+    if (!this.options.maxBytes) return;
+
+    let size: number;
+    try {
+      size = (await fs.stat(this.options.path)).size;
+    } catch {
+      return;
+    }
+    if (size < this.options.maxBytes) return;
+
+    const { path } = this.options;
+    await fs.rm(`${path}.${this.maxFiles}`, { force: true });
+    for (let i = this.maxFiles - 1; i >= 1; i--) {
+      await fs.rename(`${path}.${i}`, `${path}.${i + 1}`).catch(() => {});
+    }
+    await fs.rename(path, `${path}.1`);
+    logger.info(`Rotated ${path}`);
+  }
+}
@@ -1,31 +1,50 @@
-import { authenticate } from '@google-cloud/local-auth';
 import fs from 'fs/promises';
+import { GmailConfig } from '../types.js';
+import { AuthTarget } from './oauth.js';
 
-const SCOPES = [
+export const GMAIL_SCOPES = [
   'https://www.googleapis.com/auth/gmail.readonly',
   'https://www.googleapis.com/auth/gmail.modify',
   'https://www.googleapis.com/auth/gmail.send',
+  // Permanent delete and empty_trash
+  'https://mail.google.com/',
 ];
 
-async function setup() {
-  console.log('Starting Gmail OAuth...');
+// Google rejects Gmail scopes on its device code endpoint, so Gmail has no device code sign-in:
+// --headless has the user paste back the URL the browser was redirected to, and --device fails
+export async function gmailAuth(config: GmailConfig): Promise<AuthTarget> {
+  // The client file downloaded from Google Cloud Console: a Desktop ("installed") or Web app
+  const keys = JSON.parse(await fs.readFile(config.credentialsPath, 'utf-8'));
+  const client = keys.installed ?? keys.web;
+  if (!client?.client_id || !client?.client_secret) {
+    throw new Error(`${config.credentialsPath} is not an OAuth client file (expected "installed" or "web")`);
+  }
 
-  const auth = await authenticate({
-    scopes: SCOPES,
-    keyfilePath: './credentials/gmail-credentials.json',
-  });
-
-  const keys = JSON.parse(await fs.readFile('./credentials/gmail-credentials.json', 'utf-8'));
-
-  const token = {
-    type: 'authorized_user',
-    client_id: keys.installed.client_id,
-    client_secret: keys.installed.client_secret,
-    refresh_token: auth.credentials.refresh_token,
+  return {
+    client: {
+      clientId: client.client_id,
+      clientSecret: client.client_secret,
+      authorizeUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+      tokenUrl: 'https://oauth2.googleapis.com/token',
+      scopes: GMAIL_SCOPES,
+      // Refresh tokens are only issued for offline access, and reliably only on the consent screen
+      authorizeParams: { access_type: 'offline', prompt: 'consent' },
+    },
+    requiredScopes: GMAIL_SCOPES,
+    tokenPath: config.tokenPath,
+    redirect: { host: '127.0.0.1', port: 0, path: '/' },
+    headless: 'paste',
+    // The authorized_user format that google.auth.fromJSON reads
+    tokenFile: (token) => ({
+      type: 'authorized_user',
+      client_id: client.client_id,
+      client_secret: client.client_secret,
+      refresh_token: token.refresh_token,
+      scope: token.scope,
+    }),
+    readRefreshToken: async () => {
+      const token = JSON.parse(await fs.readFile(config.tokenPath, 'utf-8'));
+      return { refreshToken: token.refresh_token, publicClient: false };
+    },
   };
-
-  await fs.writeFile('./credentials/gmail-token.json', JSON.stringify(token, null, 2));
-  console.log('Gmail token saved to credentials/gmail-token.json');
 }
-
-setup().catch(console.error);
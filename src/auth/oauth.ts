@@ -0,0 +1,244 @@
+import { createHash, randomBytes } from 'node:crypto';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+
+// OAuth 2.0 building blocks shared by the Gmail and Outlook sign-ins: authorization code
+// with PKCE and a loopback redirect (RFC 8252), and the device authorization grant (RFC 8628).
+
+const CALLBACK_TIMEOUT_MS = 5 * 60 * 1000;
+const DEVICE_GRANT = 'urn:ietf:params:oauth:grant-type:device_code';
+
+export interface OAuthClient {
+  clientId: string;
+  // Omitted for public clients (device code sign-ins)
+  clientSecret?: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+  deviceCodeUrl?: string;
+  scopes: string[];
+  // Provider-specific authorize parameters, e.g. Google's access_type=offline
+  authorizeParams?: Record<string, string>;
+}
+
+export interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in: number;
+  scope?: string;
+}
+
+export interface DeviceCode {
+  device_code: string;
+  user_code: string;
+  verification_uri: string;
+  expires_in: number;
+  interval?: number;
+  message?: string;
+}
+
+// An error answer from the provider; code is the OAuth error, e.g. invalid_grant
+export class OAuthError extends Error {
+  constructor(
+    readonly code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'OAuthError';
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export function createPkce(): { verifier: string; challenge: string } {
+  const verifier = randomBytes(32).toString('base64url');
+  const challenge = createHash('sha256').update(verifier).digest('base64url');
+  return { verifier, challenge };
+}
+
+export function createState(): string {
+  return randomBytes(16).toString('base64url');
+}
+
+export function authorizeUrl(client: OAuthClient, redirectUri: string, state: string, challenge: string): string {
+  const params = new URLSearchParams({
+    client_id: client.clientId,
+    response_type: 'code',
+    redirect_uri: redirectUri,
+    scope: client.scopes.join(' '),
+    state,
+    code_challenge: challenge,
+    code_challenge_method: 'S256',
+    ...client.authorizeParams,
+  });
+  return `${client.authorizeUrl}?${params}`;
+}
+
+// The authorization code from a redirect URL, after checking it answers our request
+export function codeFromRedirect(redirect: URL, state: string): string {
+  const error = redirect.searchParams.get('error');
+  if (error) {
+    throw new OAuthError(error, `Sign-in failed: ${redirect.searchParams.get('error_description') || error}`);
+  }
+  // A different state means the redirect was not started by this sign-in
+  if (redirect.searchParams.get('state') !== state) {
+    throw new OAuthError('invalid_state', 'Sign-in failed: state mismatch, start again');
+  }
+  const code = redirect.searchParams.get('code');
+  if (!code) throw new OAuthError('invalid_request', 'Sign-in failed: no authorization code in the redirect');
+  return code;
+}
+
+/**
+ * Listens on the loopback redirect URI until the browser comes back with a code.
+ * onReady gets the actual redirect URI, which includes the port when port 0 was asked for.
+ */
+export async function waitForRedirect(
+  redirect: { host: string; port: number; path: string },
+  state: string,
+  onReady: (redirectUri: string) => Promise<void> | void
+): Promise<{ code: string; redirectUri: string }> {
+  const server = http.createServer();
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(redirect.port, redirect.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const { port } = server.address() as AddressInfo;
+  const redirectUri = `http://${redirect.host}:${port}${redirect.path}`;
+
+  try {
+    const code = await new Promise<string>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('Timed out waiting for the sign-in')), CALLBACK_TIMEOUT_MS);
+      server.on('request', (req, res) => {
+        const url = new URL(req.url || '/', redirectUri);
+        if (url.pathname !== redirect.path) {
+          res.writeHead(404);
+          res.end();
+          return;
+        }
+        try {
+          const code = codeFromRedirect(url, state);
+          res.writeHead(200, { 'Content-Type': 'text/html' });
+          res.end('<h1>Signed in. You can close this window.</h1>');
+          clearTimeout(timer);
+          resolve(code);
+        } catch (error) {
+          res.writeHead(400, { 'Content-Type': 'text/html' });
+          res.end('<h1>Sign-in failed. See the terminal for details.</h1>');
+          clearTimeout(timer);
+          reject(error);
+        }
+      });
+      Promise.resolve(onReady(redirectUri)).catch(reject);
+    });
+    return { code, redirectUri };
+  } finally {
+    server.close();
+    server.closeAllConnections();
+  }
+}
+
+export function exchangeCode(
+  client: OAuthClient,
+  code: string,
+  redirectUri: string,
+  verifier: string
+): Promise<TokenResponse> {
+  return postForm(client.tokenUrl, {
+    ...credentials(client),
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri,
+    code_verifier: verifier,
+  });
+}
+
+export function refreshAccessToken(client: OAuthClient, refreshToken: string): Promise<TokenResponse> {
+  return postForm(client.tokenUrl, {
+    ...credentials(client),
+    grant_type: 'refresh_token',
+    refresh_token: refreshToken,
+  });
+}
+
+export async function requestDeviceCode(client: OAuthClient): Promise<DeviceCode> {
+  if (!client.deviceCodeUrl) throw new Error('This provider has no device code sign-in');
+  return postForm<DeviceCode>(client.deviceCodeUrl, {
+    client_id: client.clientId,
+    scope: client.scopes.join(' '),
+  });
+}
+
+// Polls until the user has approved the device code at the verification URI
+export async function pollDeviceToken(client: OAuthClient, device: DeviceCode): Promise<TokenResponse> {
+  let interval = (device.interval ?? 5) * 1000;
+  const deadline = Date.now() + device.expires_in * 1000;
+
+  while (Date.now() < deadline) {
+    await sleep(interval);
+    try {
+      return await postForm(client.tokenUrl, {
+        ...credentials(client),
+        grant_type: DEVICE_GRANT,
+        device_code: device.device_code,
+      });
+    } catch (error) {
+      if (!(error instanceof OAuthError)) throw error;
+      if (error.code === 'authorization_pending') continue;
+      // The provider asks us to poll less often
+      if (error.code === 'slow_down') interval += 5000;
+      else throw error;
+    }
+  }
+  throw new OAuthError('expired_token', 'The device code expired before sign-in completed, start again');
+}
+
+// Required scopes missing from what the provider granted. Graph may report scopes with
+// its resource prefix, and case differs between providers.
+export function missingScopes(required: string[], granted: string | undefined): string[] {
+  const normalize = (scope: string) => scope.replace(/^https:\/\/graph\.microsoft\.com\//i, '').toLowerCase();
+  const have = new Set((granted || '').split(/\s+/).filter(Boolean).map(normalize));
+  return required.filter((scope) => !have.has(normalize(scope)));
+}
+
+function credentials(client: OAuthClient): Record<string, string> {
+  return client.clientSecret
+    ? { client_id: client.clientId, client_secret: client.clientSecret }
+    : { client_id: client.clientId };
+}
+
+async function postForm<T = TokenResponse>(url: string, params: Record<string, string>): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body: new URLSearchParams(params),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || data.error) {
+    const code = typeof data.error === 'string' ? data.error : `http_${response.status}`;
+    throw new OAuthError(code, data.error_description || `${code} (HTTP ${response.status})`);
+  }
+  return data as T;
+}
+
+/**
+ * How to sign in one account: its OAuth client, where the redirect goes, and how its
+ * token file looks. Built from the account's entry in accounts.json.
+ */
+export interface AuthTarget {
+  client: OAuthClient;
+  // Scopes the token must carry for every tool to work
+  requiredScopes: string[];
+  tokenPath: string;
+  // Loopback redirect registered with the provider; port 0 picks a free one
+  redirect: { host: string; port: number; path: string };
+  // Sign-in without a browser on this machine: a device code, or pasting the redirect URL back
+  headless: 'device' | 'paste';
+  // Token file contents for a fresh sign-in; publicClient when issued without the client secret
+  tokenFile(token: TokenResponse, publicClient: boolean): Record<string, unknown>;
+  readRefreshToken(): Promise<{ refreshToken: string; publicClient: boolean }>;
+}
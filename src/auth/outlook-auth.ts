@@ -1,74 +1,41 @@
-import http from 'http';
 import fs from 'fs/promises';
-import open from 'open';
-
-const CLIENT_ID = process.env.OUTLOOK_CLIENT_ID || '';
-const CLIENT_SECRET = process.env.OUTLOOK_CLIENT_SECRET || '';
-const TENANT_ID = process.env.OUTLOOK_TENANT_ID || 'common';
-const REDIRECT_URI = 'http://localhost:3000/callback';
-const SCOPES = ['Mail.Read', 'Mail.Send', 'Mail.ReadWrite', 'offline_access'];
-
-async function setup() {
-  if (!CLIENT_ID || !CLIENT_SECRET) {
-    console.error('Set OUTLOOK_CLIENT_ID and OUTLOOK_CLIENT_SECRET environment variables');
-    process.exit(1);
-  }
-
-  const authUrl =
-    `https://login.microsoftonline.com/${TENANT_ID}/oauth2/v2.0/authorize?` +
-    `client_id=${CLIENT_ID}&response_type=code&redirect_uri=${encodeURIComponent(REDIRECT_URI)}` +
-    `&scope=${encodeURIComponent(SCOPES.join(' '))}&response_mode=query`;
-
-  console.log('Opening browser for Microsoft login...');
-
-  const server = http.createServer(async (req, res) => {
-    const url = new URL(req.url!, `http://localhost:3000`);
-
-    if (url.pathname === '/callback') {
-      const code = url.searchParams.get('code');
-
-      if (code) {
-        const tokenResponse = await fetch(
-          `https://login.microsoftonline.com/${TENANT_ID}/oauth2/v2.0/token`,
-          {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-            body: new URLSearchParams({
-              client_id: CLIENT_ID,
-              client_secret: CLIENT_SECRET,
-              code,
-              redirect_uri: REDIRECT_URI,
-              grant_type: 'authorization_code',
-            }),
-          }
-        );
-
-        const data = await tokenResponse.json();
-
-        const token = {
-          access_token: data.access_token,
-          refresh_token: data.refresh_token,
-          expires_at: Date.now() + data.expires_in * 1000,
-        };
-
-        await fs.writeFile('./credentials/outlook-token.json', JSON.stringify(token, null, 2));
-
-        res.writeHead(200, { 'Content-Type': 'text/html' });
-        res.end('<h1>Success! You can close this window.</h1>');
-
-        console.log('Outlook token saved to credentials/outlook-token.json');
-        server.close();
-        process.exit(0);
-      }
-    }
-
-    res.writeHead(400);
-    res.end('Error');
-  });
-
-  server.listen(3000, () => {
-    open(authUrl);
-  });
+import { OutlookConfig } from '../types.js';
+import { AuthTarget } from './oauth.js';
+
+export const OUTLOOK_SCOPES = ['Mail.Read', 'Mail.Send', 'Mail.ReadWrite', 'offline_access'];
+
+// Device code sign-ins need "Allow public client flows" on the app registration; their
+// tokens are refreshed without the client secret
+export async function outlookAuth(config: OutlookConfig): Promise<AuthTarget> {
+  const tenant = config.tenantId || 'common';
+  const base = `https://login.microsoftonline.com/${tenant}/oauth2/v2.0`;
+
+  return {
+    client: {
+      clientId: config.clientId,
+      clientSecret: config.clientSecret || undefined,
+      authorizeUrl: `${base}/authorize`,
+      tokenUrl: `${base}/token`,
+      deviceCodeUrl: `${base}/devicecode`,
+      scopes: OUTLOOK_SCOPES,
+      authorizeParams: { response_mode: 'query' },
+    },
+    // offline_access shows up as the refresh token, not in the granted scopes
+    requiredScopes: OUTLOOK_SCOPES.filter((scope) => scope !== 'offline_access'),
+    tokenPath: config.tokenPath,
+    // Must match the redirect URI of the app registration
+    redirect: { host: 'localhost', port: 3000, path: '/callback' },
+    headless: 'device',
+    tokenFile: (token, publicClient) => ({
+      access_token: token.access_token,
+      refresh_token: token.refresh_token,
+      expires_at: Date.now() + token.expires_in * 1000,
+      scope: token.scope,
+      public_client: publicClient || undefined,
+    }),
+    readRefreshToken: async () => {
+      const token = JSON.parse(await fs.readFile(config.tokenPath, 'utf-8'));
+      return { refreshToken: token.refresh_token, publicClient: token.public_client === true };
+    },
+  };
 }
-
-setup().catch(console.error);
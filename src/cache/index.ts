@@ -0,0 +1,4 @@
+export { MailCache } from './mail-cache.js';
+export type { CacheOptions } from './mail-cache.js';
+export { MessageStore } from './store.js';
+export type { SyncStatus } from './store.js';
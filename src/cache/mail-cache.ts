@@ -0,0 +1,152 @@
+import { EmailProvider } from '../providers/base.js';
+import { parseQuery, toSqlQuery } from '../query/index.js';
+import { decodeCursor, encodeCursor } from '../cursor.js';
+import { MessageStore } from './store.js';
+import { Email, SearchOptions, SearchResult } from '../types.js';
+
+const logger = {
+  info: (...args: unknown[]) => console.error('[Cache]', ...args),
+  error: (...args: unknown[]) => console.error('[Cache ERROR]', ...args),
+};
+
+export interface CacheOptions {
+  // SQLite database file
+  path: string;
+  // How old the last sync may be before a read syncs again first
+  maxAgeMs: number;
+  // Messages per provider sync request
+  batchSize?: number;
+}
+
+interface CacheCursor {
+  cached: true;
+  offset: number;
+}
+
+// Offset for a cursor this cache issued, 0 for a first page, undefined for a provider cursor
+function cachedOffset(cursor?: string): number | undefined {
+  if (!cursor) return 0;
+  try {
+    const state = decodeCursor<Partial<CacheCursor>>(cursor);
+    return state.cached ? state.offset : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Serves searches and message reads from a local index while it is fresh.
+ * Each account backfills in the background; until that completes (or whenever
+ * a read cannot be answered locally) callers fall back to the provider.
+ */
+export class MailCache {
+  private store: MessageStore;
+  private syncing = new Map<string, Promise<void>>();
+  // Accounts changed through this server since their last sync
+  private dirty = new Set<string>();
+
+  constructor(private options: CacheOptions) {
+    this.store = new MessageStore(options.path);
+    logger.info(`Using ${options.path}`);
+  }
+
+  // Start (or resume) syncing an account without waiting for it
+  prefetch(accountId: string, provider: EmailProvider): void {
+    if (!provider.supportsSync) return;
+    this.sync(accountId, provider).catch((error) => logger.error(`Sync failed for ${accountId}:`, error));
+  }
+
+  // Pull changes until the provider has none left; concurrent callers share one run
+  sync(accountId: string, provider: EmailProvider): Promise<void> {
+    let running = this.syncing.get(accountId);
+    if (!running) {
+      running = this.runSync(accountId, provider).finally(() => this.syncing.delete(accountId));
+      this.syncing.set(accountId, running);
+    }
+    return running;
+  }
+
+  private async runSync(accountId: string, provider: EmailProvider): Promise<void> {
+    const batchSize = this.options.batchSize || 50;
+    // Cleared up front: changes made while this run is in flight mark it dirty again
+    const wasDirty = this.dirty.delete(accountId);
+
+    try {
+      for (;;) {
+        const { state } = this.store.getSyncStatus(accountId);
+        const changes = await provider.syncChanges(state, batchSize);
+        this.store.applyChanges(accountId, changes);
+        if (changes.reset) logger.info(`${accountId}: sync state was reset, rebuilding the cache`);
+        if (!changes.hasMore) return;
+      }
+    } catch (error) {
+      if (wasDirty) this.dirty.add(accountId);
+      throw error;
+    }
+  }
+
+  // Mark an account stale after a change made through this server
+  invalidate(accountId: string): void {
+    this.dirty.add(accountId);
+  }
+
+  // Forget an account's cached messages and sync state
+  remove(accountId: string): void {
+    this.store.clearAccount(accountId);
+    this.dirty.delete(accountId);
+  }
+
+  // True when reads for this account can be answered locally right now
+  private async ensureFresh(accountId: string, provider: EmailProvider): Promise<boolean> {
+    if (!provider.supportsSync) return false;
+
+    const status = this.store.getSyncStatus(accountId);
+    if (!status.complete) {
+      // Still backfilling: keep it going and let this read go to the provider
+      this.prefetch(accountId, provider);
+      return false;
+    }
+
+    const stale =
+      this.dirty.has(accountId) || !status.syncedAt || Date.now() - status.syncedAt > this.options.maxAgeMs;
+    if (!stale) return true;
+
+    try {
+      await this.sync(accountId, provider);
+      return true;
+    } catch (error) {
+      logger.error(`Sync failed for ${accountId}, reading from the server:`, error);
+      return false;
+    }
+  }
+
+  // Returns null when the search has to go to the provider
+  async search(accountId: string, provider: EmailProvider, options: SearchOptions): Promise<SearchResult | null> {
+    const offset = cachedOffset(options.cursor);
+    if (offset === undefined) return null;
+
+    const parsed = parseQuery(options.query);
+    if (!provider.isSyncedFolder(options.folder || parsed.folder)) return null;
+
+    const query = toSqlQuery(parsed.node, provider.name);
+    if (!query) return null;
+    // Later pages of a cached search stay local even if a refresh fails, since the cursor is ours
+    if (!(await this.ensureFresh(accountId, provider)) && !options.cursor) return null;
+
+    const maxResults = options.maxResults || 10;
+    const emails = this.store.search(accountId, query, maxResults + 1, offset);
+    const hasMore = emails.length > maxResults;
+    const next: CacheCursor = { cached: true, offset: offset + maxResults };
+    return { emails: emails.slice(0, maxResults), nextCursor: hasMore ? encodeCursor(next) : undefined };
+  }
+
+  // Returns null when the message is not cached or the cache is not fresh
+  async getMessage(accountId: string, provider: EmailProvider, id: string): Promise<Email | null> {
+    if (!(await this.ensureFresh(accountId, provider))) return null;
+    return this.store.getMessage(accountId, id);
+  }
+
+  close(): void {
+    this.store.close();
+  }
+}
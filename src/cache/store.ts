@@ -0,0 +1,190 @@
+import Database from 'better-sqlite3';
+import { htmlToText } from '../providers/compose.js';
+import { SqlQuery } from '../query/index.js';
+import { Email, MessageUpdate, SyncChanges } from '../types.js';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS messages (
+    account_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    sender TEXT NOT NULL,
+    recipients TEXT NOT NULL,
+    cc TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    body TEXT NOT NULL,
+    date INTEGER NOT NULL,
+    is_unread INTEGER NOT NULL,
+    is_flagged INTEGER NOT NULL,
+    has_attachments INTEGER NOT NULL,
+    labels TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (account_id, id)
+  );
+
+  CREATE INDEX IF NOT EXISTS messages_by_date ON messages (account_id, date DESC);
+
+  CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+    subject, sender, recipients, body,
+    content = 'messages', content_rowid = 'rowid'
+  );
+
+  CREATE TRIGGER IF NOT EXISTS messages_ai AFTER INSERT ON messages BEGIN
+    INSERT INTO messages_fts (rowid, subject, sender, recipients, body)
+    VALUES (new.rowid, new.subject, new.sender, new.recipients, new.body);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS messages_ad AFTER DELETE ON messages BEGIN
+    INSERT INTO messages_fts (messages_fts, rowid, subject, sender, recipients, body)
+    VALUES ('delete', old.rowid, old.subject, old.sender, old.recipients, old.body);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS messages_au AFTER UPDATE ON messages BEGIN
+    INSERT INTO messages_fts (messages_fts, rowid, subject, sender, recipients, body)
+    VALUES ('delete', old.rowid, old.subject, old.sender, old.recipients, old.body);
+    INSERT INTO messages_fts (rowid, subject, sender, recipients, body)
+    VALUES (new.rowid, new.subject, new.sender, new.recipients, new.body);
+  END;
+
+  CREATE TABLE IF NOT EXISTS sync_state (
+    account_id TEXT PRIMARY KEY,
+    state TEXT NOT NULL,
+    complete INTEGER NOT NULL,
+    synced_at INTEGER
+  );
+`;
+
+export interface SyncStatus {
+  state?: string;
+  // The initial backfill finished, so the cache holds the whole synced mailbox
+  complete: boolean;
+  // Last time the cache caught up with the server (ms since epoch)
+  syncedAt?: number;
+}
+
+function toEmail(data: string): Email {
+  const email = JSON.parse(data);
+  return { ...email, date: new Date(email.date) };
+}
+
+/**
+ * SQLite message cache with an FTS5 index, one row per (account, message).
+ * The full Email is kept as JSON; the other columns exist for searching.
+ */
+export class MessageStore {
+  private db: Database.Database;
+
+  constructor(path: string) {
+    this.db = new Database(path);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  getSyncStatus(accountId: string): SyncStatus {
+    const row = this.db
+      .prepare('SELECT state, complete, synced_at FROM sync_state WHERE account_id = ?')
+      .get(accountId) as { state: string; complete: number; synced_at: number | null } | undefined;
+
+    if (!row) return { complete: false };
+    return { state: row.state, complete: row.complete === 1, syncedAt: row.synced_at ?? undefined };
+  }
+
+  // Apply one sync step atomically, so a crash never leaves state and messages out of step
+  applyChanges(accountId: string, changes: SyncChanges): void {
+    const apply = this.db.transaction(() => {
+      const previous = this.getSyncStatus(accountId);
+      if (changes.reset) this.deleteMessages(accountId);
+
+      for (const email of changes.upserted) this.upsert(accountId, email);
+      for (const update of changes.updated) this.update(accountId, update);
+      for (const id of changes.deleted) {
+        this.db.prepare('DELETE FROM messages WHERE account_id = ? AND id = ?').run(accountId, id);
+      }
+      if (changes.retained) {
+        this.db
+          .prepare('DELETE FROM messages WHERE account_id = ? AND id NOT IN (SELECT value FROM json_each(?))')
+          .run(accountId, JSON.stringify(changes.retained));
+      }
+
+      const complete = (previous.complete && !changes.reset) || !changes.hasMore;
+      // synced_at only moves once the cache has caught up with the server
+      let syncedAt = changes.reset ? null : (previous.syncedAt ?? null);
+      if (!changes.hasMore) syncedAt = Date.now();
+      this.db
+        .prepare(
+          `INSERT INTO sync_state (account_id, state, complete, synced_at) VALUES (?, ?, ?, ?)
+           ON CONFLICT (account_id) DO UPDATE SET
+             state = excluded.state, complete = excluded.complete, synced_at = excluded.synced_at`
+        )
+        .run(accountId, changes.state, complete ? 1 : 0, syncedAt);
+    });
+    apply();
+  }
+
+  getMessage(accountId: string, id: string): Email | null {
+    const row = this.db
+      .prepare('SELECT data FROM messages WHERE account_id = ? AND id = ?')
+      .get(accountId, id) as { data: string } | undefined;
+    return row ? toEmail(row.data) : null;
+  }
+
+  search(accountId: string, query: SqlQuery, limit: number, offset = 0): Email[] {
+    const rows = this.db
+      .prepare(
+        `SELECT m.data FROM messages m WHERE m.account_id = ? AND ${query.where}
+         ORDER BY m.date DESC, m.id LIMIT ? OFFSET ?`
+      )
+      .all(accountId, ...query.params, limit, offset) as { data: string }[];
+    return rows.map((r) => toEmail(r.data));
+  }
+
+  // Forget an account entirely (messages and sync state)
+  clearAccount(accountId: string): void {
+    this.db.transaction(() => {
+      this.deleteMessages(accountId);
+      this.db.prepare('DELETE FROM sync_state WHERE account_id = ?').run(accountId);
+    })();
+  }
+
+  private deleteMessages(accountId: string): void {
+    this.db.prepare('DELETE FROM messages WHERE account_id = ?').run(accountId);
+  }
+
+  private upsert(accountId: string, email: Email): void {
+    this.db
+      .prepare(
+        `INSERT INTO messages (account_id, id, sender, recipients, cc, subject, body, date,
+                               is_unread, is_flagged, has_attachments, labels, data)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (account_id, id) DO UPDATE SET
+           sender = excluded.sender, recipients = excluded.recipients, cc = excluded.cc,
+           subject = excluded.subject, body = excluded.body, date = excluded.date,
+           is_unread = excluded.is_unread, is_flagged = excluded.is_flagged,
+           has_attachments = excluded.has_attachments, labels = excluded.labels, data = excluded.data`
+      )
+      .run(
+        accountId,
+        email.id,
+        email.from,
+        email.to.join(', '),
+        (email.cc || []).join(', '),
+        email.subject,
+        email.body || htmlToText(email.bodyHtml || ''),
+        new Date(email.date).getTime(),
+        email.isUnread ? 1 : 0,
+        email.isFlagged ? 1 : 0,
+        email.hasAttachments ? 1 : 0,
+        JSON.stringify(email.labels || []),
+        JSON.stringify(email)
+      );
+  }
+
+  // Updates for messages the cache never saw are dropped; the next full fetch brings them in
+  private update(accountId: string, { id, ...changes }: MessageUpdate): void {
+    const email = this.getMessage(accountId, id);
+    if (email) this.upsert(accountId, { ...email, ...changes });
+  }
+}
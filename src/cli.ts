@@ -0,0 +1,251 @@
+#!/usr/bin/env node
+import fs from 'fs/promises';
+import path from 'path';
+import { createInterface } from 'readline/promises';
+import { parseArgs } from 'util';
+import open from 'open';
+import { readAccountsFile } from './account-manager.js';
+import { gmailAuth } from './auth/gmail-auth.js';
+import { outlookAuth } from './auth/outlook-auth.js';
+import {
+  AuthTarget,
+  authorizeUrl,
+  codeFromRedirect,
+  createPkce,
+  createState,
+  exchangeCode,
+  missingScopes,
+  OAuthError,
+  pollDeviceToken,
+  refreshAccessToken,
+  requestDeviceCode,
+  TokenResponse,
+  waitForRedirect,
+} from './auth/oauth.js';
+import { AccountConfig, GmailConfig, OutlookConfig } from './types.js';
+
+const USAGE = `Usage:
+  mail-agent auth <accountId> [--headless | --device] [--no-browser] [--port <port>]
+  mail-agent auth status [accountId]
+
+Signs an account from accounts.json in and writes its tokenPath.
+
+Options:
+  --accounts <path>  accounts.json (default: $ACCOUNTS_PATH or /app/credentials/accounts.json)
+  --headless         No browser on this machine (e.g. in Docker): Outlook uses a device code,
+                     Gmail asks you to paste the URL the browser was redirected to
+  --device           Device code sign-in only; fails for Gmail, whose scopes Google does not
+                     allow in its device flow
+  --no-browser       Print the sign-in URL instead of opening it
+  --port <port>      Port of the local redirect (default: Outlook 3000, Gmail any free port)`;
+
+interface LoginOptions {
+  headless: boolean;
+  // --device: a device code or nothing, rather than whatever headless sign-in the provider has
+  device: boolean;
+  browser: boolean;
+  port?: number;
+}
+
+async function authTarget(account: AccountConfig): Promise<AuthTarget> {
+  switch (account.provider) {
+    case 'gmail':
+      return gmailAuth(account.config as GmailConfig);
+    case 'outlook':
+      return outlookAuth(account.config as OutlookConfig);
+    default:
+      throw new Error(
+        `Account "${account.id}" uses ${account.provider} with a password; there is nothing to sign in to`
+      );
+  }
+}
+
+async function login(account: AccountConfig, options: LoginOptions): Promise<void> {
+  const target = await authTarget(account);
+  console.log(`Signing in ${account.name} (${account.id}, ${account.provider})...`);
+
+  if (options.device && target.headless !== 'device') {
+    throw new Error(
+      `${account.provider} has no device code sign-in (Google does not allow Gmail scopes in its device flow); ` +
+        'use --headless to paste back the redirected URL instead'
+    );
+  }
+
+  let token: TokenResponse;
+  let publicClient = false;
+  if ((options.headless || options.device) && target.headless === 'device') {
+    token = await deviceSignIn(target);
+    publicClient = true;
+  } else if (options.headless) {
+    console.log(`${account.provider} has no device code sign-in; signing in by pasting back the redirected URL.`);
+    token = await pastedSignIn(target);
+  } else {
+    token = await browserSignIn(target, options);
+  }
+
+  // A token without these would connect, then fail on the first tool that needs them
+  if (!token.refresh_token) {
+    throw new Error('No refresh token was issued; remove the app from your account permissions and sign in again');
+  }
+  const missing = missingScopes(target.requiredScopes, token.scope);
+  if (missing.length) {
+    throw new Error(`Permissions not granted: ${missing.join(', ')}. Sign in again and approve all of them`);
+  }
+
+  await fs.mkdir(path.dirname(target.tokenPath), { recursive: true });
+  await fs.writeFile(target.tokenPath, JSON.stringify(target.tokenFile(token, publicClient), null, 2), {
+    mode: 0o600,
+  });
+  console.log(`Token saved to ${target.tokenPath}`);
+  console.log('A running server picks it up after reconnect_account (or a restart).');
+}
+
+// Authorization code with PKCE, redirected to a local port
+async function browserSignIn(target: AuthTarget, options: LoginOptions): Promise<TokenResponse> {
+  const { verifier, challenge } = createPkce();
+  const state = createState();
+  const redirect = { ...target.redirect, port: options.port ?? target.redirect.port };
+
+  const { code, redirectUri } = await waitForRedirect(redirect, state, async (redirectUri) => {
+    const url = authorizeUrl(target.client, redirectUri, state, challenge);
+    console.log(`\nOpen this URL to sign in:\n\n  ${url}\n`);
+    if (options.browser) await open(url).catch(() => undefined);
+  });
+  return exchangeCode(target.client, code, redirectUri, verifier);
+}
+
+// Authorization code with PKCE; nothing listens on the redirect, so the user copies it back
+async function pastedSignIn(target: AuthTarget): Promise<TokenResponse> {
+  const { verifier, challenge } = createPkce();
+  const state = createState();
+  const redirectUri = `http://${target.redirect.host}${target.redirect.path}`;
+
+  const url = authorizeUrl(target.client, redirectUri, state, challenge);
+  console.log(`\nOpen this URL in a browser on any machine:\n\n  ${url}\n`);
+  console.log('After approving, the browser shows a connection error. Copy the full URL from its address bar.');
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const pasted = (await rl.question('\nRedirected URL: ')).trim();
+    const code = codeFromRedirect(new URL(pasted), state);
+    return await exchangeCode(target.client, code, redirectUri, verifier);
+  } finally {
+    rl.close();
+  }
+}
+
+// Device authorization grant: the user enters a code on another device
+async function deviceSignIn(target: AuthTarget): Promise<TokenResponse> {
+  // Device codes are issued to the app as a public client, without its secret
+  const client = { ...target.client, clientSecret: undefined };
+  const device = await requestDeviceCode(client);
+  console.log(`\n${device.message || `Go to ${device.verification_uri} and enter the code ${device.user_code}`}\n`);
+  console.log('Waiting for approval...');
+  return pollDeviceToken(client, device);
+}
+
+// Refreshes every OAuth account's token once, without saving it, to report whether it still works
+async function status(accounts: AccountConfig[]): Promise<boolean> {
+  let healthy = true;
+  const rows: string[][] = [['ACCOUNT', 'PROVIDER', 'STATUS', 'DETAILS']];
+
+  for (const account of accounts) {
+    const [state, details] = await tokenStatus(account);
+    if (state !== 'valid' && state !== 'password') healthy = false;
+    rows.push([account.id, account.provider, state, details]);
+  }
+
+  const widths = rows[0].map((_, i) => Math.max(...rows.map((row) => row[i].length)));
+  for (const row of rows) {
+    console.log(row.map((cell, i) => (i < row.length - 1 ? cell.padEnd(widths[i]) : cell)).join('  '));
+  }
+  return healthy;
+}
+
+async function tokenStatus(account: AccountConfig): Promise<[string, string]> {
+  if (account.provider === 'imap') return ['password', 'no token needed'];
+
+  let target: AuthTarget;
+  let stored: { refreshToken: string; publicClient: boolean };
+  try {
+    target = await authTarget(account);
+  } catch (error) {
+    return ['error', error instanceof Error ? error.message : 'Unknown'];
+  }
+  try {
+    stored = await target.readRefreshToken();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return ['missing', `no token at ${target.tokenPath}; run mail-agent auth ${account.id}`];
+    }
+    return ['error', error instanceof Error ? error.message : 'Unknown'];
+  }
+  if (!stored.refreshToken) return ['invalid', `${target.tokenPath} has no refresh token`];
+
+  try {
+    const client = stored.publicClient ? { ...target.client, clientSecret: undefined } : target.client;
+    const token = await refreshAccessToken(client, stored.refreshToken);
+    const missing = missingScopes(target.requiredScopes, token.scope);
+    if (missing.length) {
+      return ['missing-scopes', `run mail-agent auth ${account.id} to grant ${missing.join(', ')}`];
+    }
+    return ['valid', target.tokenPath];
+  } catch (error) {
+    // invalid_grant: revoked, expired, or the password changed
+    if (error instanceof OAuthError && error.code === 'invalid_grant') {
+      return ['expired', `${error.message}; run mail-agent auth ${account.id}`];
+    }
+    return ['error', error instanceof Error ? error.message : 'Unknown'];
+  }
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      accounts: { type: 'string' },
+      headless: { type: 'boolean', default: false },
+      device: { type: 'boolean', default: false },
+      'no-browser': { type: 'boolean', default: false },
+      port: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  const [command, target, extra] = positionals;
+  if (values.help || command !== 'auth' || !target) {
+    console.log(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  const accountsPath = values.accounts || process.env.ACCOUNTS_PATH || '/app/credentials/accounts.json';
+  const { accounts } = await readAccountsFile(accountsPath);
+
+  if (target === 'status') {
+    const selected = extra ? accounts.filter((a) => a.id === extra) : accounts;
+    if (!selected.length) throw new Error(`Account not found in ${accountsPath}: ${extra ?? '(none configured)'}`);
+    return (await status(selected)) ? 0 : 1;
+  }
+
+  const account = accounts.find((a) => a.id === target);
+  if (!account) throw new Error(`Account not found in ${accountsPath}: ${target}`);
+
+  const port = values.port === undefined ? undefined : parseInt(values.port);
+  if (port !== undefined && !(port >= 0 && port < 65536)) throw new Error(`Invalid port: ${values.port}`);
+
+  await login(account, {
+    headless: values.headless,
+    device: values.device,
+    browser: !values['no-browser'],
+    port,
+  });
+  return 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+);
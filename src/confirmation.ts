@@ -0,0 +1,176 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { AccountManager } from './account-manager.js';
+import { InvalidRequestError } from './errors.js';
+import { BulkTarget } from './types.js';
+
+const logger = {
+  info: (...args: unknown[]) => console.error('[Confirm]', ...args),
+  error: (...args: unknown[]) => console.error('[Confirm ERROR]', ...args),
+};
+
+// Tools a policy may put behind confirmation: everything that sends or destroys
+export const CONFIRMABLE_TOOLS = new Set([
+  'send_email',
+  'reply_email',
+  'forward_email',
+  'send_draft',
+  'delete_email',
+  'empty_trash',
+  'delete_draft',
+  'move_email',
+  'archive_email',
+  'delete_label',
+  'bulk_action',
+]);
+
+const TOKEN_TTL_MS = 5 * 60 * 1000;
+const PREVIEW_BODY_LENGTH = 1000;
+
+type ToolArgs = Record<string, unknown> | undefined;
+
+// Emails a bulk action resolved to, with enough to recognise them in a preview
+export type PreviewTarget = BulkTarget & { from?: string; subject?: string };
+
+interface PendingConfirmation {
+  tool: string;
+  fingerprint: string;
+  expiresAt: number;
+}
+
+// Same arguments in any key order give the same fingerprint; the token itself is excluded.
+// Resolved targets are part of it, so a query that now finds other emails needs a new approval.
+function fingerprint(tool: string, args: ToolArgs, targets?: PreviewTarget[]): string {
+  const { confirmationToken: _token, ...rest } = args || {};
+  const canonical = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(canonical);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.keys(value)
+          .sort()
+          .map((key) => [key, canonical((value as Record<string, unknown>)[key])])
+      );
+    }
+    return value;
+  };
+  const ids = targets?.map((t) => `${t.accountId}/${t.emailId}`).sort();
+  return createHash('sha256').update(JSON.stringify([tool, canonical(rest), ids])).digest('hex');
+}
+
+/**
+ * Holds back sending and destructive tool calls until a human approves them: through
+ * MCP elicitation when the client supports it, otherwise with a one-time token that
+ * the agent passes back after showing the preview. Tokens are bound to the exact call.
+ */
+export class ConfirmationGate {
+  private pending = new Map<string, PendingConfirmation>();
+
+  constructor(
+    private manager: AccountManager,
+    private server: Server
+  ) {}
+
+  // Resolves to null when the call may run, or to the text to return instead. targets are the
+  // emails a bulk action resolved to; the approval then covers exactly those.
+  async check(tool: string, args: ToolArgs, targets?: PreviewTarget[]): Promise<string | null> {
+    const token = args?.confirmationToken as string | undefined;
+    if (token) {
+      this.consume(token, tool, args, targets);
+      return null;
+    }
+
+    const preview = await this.preview(tool, args, targets);
+
+    if (this.server.getClientCapabilities()?.elicitation) {
+      try {
+        const response = await this.server.elicitInput({
+          message: `Confirm ${tool}?\n\n${JSON.stringify(preview, null, 2)}`,
+          requestedSchema: {
+            type: 'object',
+            properties: {
+              confirm: { type: 'boolean', title: 'Run this action', description: `Approve ${tool}` },
+            },
+            required: ['confirm'],
+          },
+        });
+        if (response.action === 'accept' && response.content?.confirm === true) return null;
+        logger.info(`${tool} not approved (${response.action})`);
+        return `Action cancelled: ${tool} was not approved by the user`;
+      } catch (error) {
+        // Fall back to a token when the client cannot answer
+        logger.error('Elicitation failed:', error);
+      }
+    }
+
+    const issued = this.issue(tool, args, targets);
+    return JSON.stringify(
+      {
+        confirmationRequired: true,
+        preview,
+        confirmationToken: issued.token,
+        expiresAt: new Date(issued.expiresAt).toISOString(),
+        instructions:
+          'Show this preview to the user. Only if they approve, call the tool again with the same ' +
+          'arguments plus confirmationToken.',
+      },
+      null,
+      2
+    );
+  }
+
+  private issue(tool: string, args: ToolArgs, targets?: PreviewTarget[]): { token: string; expiresAt: number } {
+    const now = Date.now();
+    for (const [token, entry] of this.pending) {
+      if (entry.expiresAt <= now) this.pending.delete(token);
+    }
+
+    const token = randomUUID();
+    const expiresAt = now + TOKEN_TTL_MS;
+    this.pending.set(token, { tool, fingerprint: fingerprint(tool, args, targets), expiresAt });
+    return { token, expiresAt };
+  }
+
+  private consume(token: string, tool: string, args: ToolArgs, targets?: PreviewTarget[]): void {
+    const entry = this.pending.get(token);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.pending.delete(token);
+      throw new InvalidRequestError('Invalid or expired confirmation token');
+    }
+    if (entry.tool !== tool || entry.fingerprint !== fingerprint(tool, args, targets)) {
+      throw new InvalidRequestError(
+        'Confirmation token does not match this call or the emails it now affects; request a new preview'
+      );
+    }
+    this.pending.delete(token);
+  }
+
+  // What the call would do, with the affected email looked up for context
+  private async preview(tool: string, args: ToolArgs, targets?: PreviewTarget[]): Promise<Record<string, unknown>> {
+    const { confirmationToken: _token, attachments, body, ...rest } = args || {};
+    const preview: Record<string, unknown> = { tool, ...rest };
+
+    if (typeof body === 'string') {
+      preview.body = body.length > PREVIEW_BODY_LENGTH ? `${body.slice(0, PREVIEW_BODY_LENGTH)}…` : body;
+    }
+    if (Array.isArray(attachments)) {
+      preview.attachments = attachments.map((a) => a?.filename || a?.path || '(unnamed)');
+    }
+
+    if (targets) {
+      preview.emails = targets.map(({ accountId, emailId, from, subject }) => ({ accountId, emailId, from, subject }));
+    }
+
+    if (typeof args?.emailId === 'string') {
+      try {
+        const email = await this.manager.getMessage(args.accountId as string, args.emailId);
+        if (email) {
+          preview.email = { from: email.from, to: email.to, subject: email.subject, date: email.date };
+        }
+      } catch (error) {
+        logger.error('Failed to load email for preview:', error);
+      }
+    }
+
+    return preview;
+  }
+}
@@ -0,0 +1,15 @@
+// Pagination cursors are opaque to clients: JSON state, base64url encoded
+
+import { InvalidRequestError } from './errors.js';
+
+export function encodeCursor(state: unknown): string {
+  return Buffer.from(JSON.stringify(state)).toString('base64url');
+}
+
+export function decodeCursor<T>(cursor: string): T {
+  try {
+    return JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8')) as T;
+  } catch {
+    throw new InvalidRequestError('Invalid cursor');
+  }
+}
@@ -0,0 +1,243 @@
+// Typed errors. Gmail, Graph and IMAP fail in different shapes; classifyError maps them
+// onto these so retries, tool results and per-account outcomes treat every provider alike.
+
+import { ErrorCode, ErrorInfo } from './types.js';
+
+export class MailError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    cause?: unknown
+  ) {
+    super(message, { cause });
+    this.name = new.target.name;
+  }
+}
+
+// The provider throttled us; retryAfterMs comes from Retry-After when the provider sent it
+export class RateLimitedError extends MailError {
+  constructor(
+    message: string,
+    readonly retryAfterMs?: number,
+    cause?: unknown
+  ) {
+    super('RATE_LIMITED', message, cause);
+  }
+}
+
+// Credentials were rejected; only a new sign-in (or password) helps
+export class AuthExpiredError extends MailError {
+  constructor(message: string, cause?: unknown) {
+    super('AUTH_EXPIRED', message, cause);
+  }
+}
+
+export class NotFoundError extends MailError {
+  constructor(message: string, cause?: unknown) {
+    super('NOT_FOUND', message, cause);
+  }
+}
+
+// Network failures and 5xx responses: the same request may well succeed later
+export class TransientError extends MailError {
+  constructor(
+    message: string,
+    readonly retryAfterMs?: number,
+    cause?: unknown
+  ) {
+    super('TRANSIENT', message, cause);
+  }
+}
+
+// The account is configured but has no working connection
+export class AccountUnavailableError extends MailError {
+  constructor(message: string, cause?: unknown) {
+    super('ACCOUNT_UNAVAILABLE', message, cause);
+  }
+}
+
+export class PolicyDeniedError extends MailError {
+  constructor(message: string) {
+    super('POLICY_DENIED', `Not allowed by policy: ${message}`);
+  }
+}
+
+// The credentials work but lack a scope the call needs; signing in again grants it
+export class PermissionDeniedError extends MailError {
+  constructor(message: string, cause?: unknown) {
+    super('PERMISSION_DENIED', message, cause);
+  }
+}
+
+// Bad or missing arguments; retrying the same call will not help
+export class InvalidRequestError extends MailError {
+  constructor(message: string, cause?: unknown) {
+    super('INVALID_REQUEST', message, cause);
+  }
+}
+
+// The target already exists, e.g. an account ID that is taken
+export class ConflictError extends MailError {
+  constructor(message: string) {
+    super('CONFLICT', message);
+  }
+}
+
+export class UnsupportedError extends MailError {
+  constructor(message: string) {
+    super('UNSUPPORTED', message);
+  }
+}
+
+const TRANSIENT_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'EPIPE',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+]);
+
+// Gmail reports per-user and per-project quota as 403 with one of these reasons
+const RATE_LIMIT_REASONS = new Set(['rateLimitExceeded', 'userRateLimitExceeded', 'quotaExceeded']);
+
+// Retry-After is either seconds or an HTTP date
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Typed error for an HTTP response, or null when the status is not one we classify
+export function httpError(
+  status: number,
+  retryAfter: string | null | undefined,
+  body?: unknown,
+  cause?: unknown
+): MailError | null {
+  const delay = parseRetryAfter(retryAfter);
+  const reasons = errorReasons(body);
+  const detail = cause instanceof Error ? `: ${cause.message}` : '';
+
+  if (status === 429 || (status === 403 && reasons.some((r) => RATE_LIMIT_REASONS.has(r)))) {
+    return new RateLimitedError(`Rate limited by the provider (HTTP ${status})${detail}`, delay, cause);
+  }
+  if (status === 400) return new InvalidRequestError(`Rejected by the provider (HTTP 400)${detail}`, cause);
+  if (status === 401) return new AuthExpiredError(`Credentials rejected by the provider (HTTP 401)${detail}`, cause);
+  if (status === 404) return new NotFoundError(`Not found (HTTP 404)${detail}`, cause);
+  if (status === 408 || status >= 500) {
+    return new TransientError(`Provider unavailable (HTTP ${status})${detail}`, delay, cause);
+  }
+  return null;
+}
+
+// Gmail puts reasons under error.errors[].reason, Graph under error.code
+function errorReasons(body: unknown): string[] {
+  const error = (body as { error?: { code?: unknown; errors?: { reason?: string }[] } } | undefined)?.error;
+  if (!error || typeof error !== 'object') return [];
+  const reasons = (error.errors || []).map((e) => e.reason).filter((r): r is string => !!r);
+  if (typeof error.code === 'string') reasons.push(error.code);
+  return reasons;
+}
+
+/**
+ * Maps any provider error onto a MailError, keeping the original as cause. Errors that
+ * fit none of the types (bad arguments, policy, unsupported) are returned unchanged.
+ */
+export function classifyError(error: unknown): unknown {
+  if (error instanceof MailError) return error;
+  if (!error || typeof error !== 'object') return error;
+
+  const e = error as {
+    message?: string;
+    code?: unknown;
+    status?: number;
+    statusCode?: number;
+    source?: string;
+    textCode?: string;
+    response?: { status?: number; headers?: Record<string, string>; data?: unknown };
+    headers?: Headers;
+    body?: unknown;
+    error?: unknown;
+    cause?: unknown;
+  };
+  const message = e.message || 'Unknown';
+
+  // Client libraries wrap errors thrown below them (our own included)
+  for (const inner of [e.error, e.cause]) {
+    if (inner instanceof MailError) return inner;
+  }
+
+  // Graph keeps the name of a wrapped error as its code
+  if (e.code === 'AuthExpiredError') return new AuthExpiredError(message, error);
+  if (e.code === 'TransientError') return new TransientError(message, undefined, error);
+
+  // IMAP: login failures and missing messages
+  if (e.source === 'authentication' || e.textCode === 'AUTHENTICATIONFAILED') {
+    return new AuthExpiredError(message, error);
+  }
+  if (message.startsWith('Email not found')) return new NotFoundError(message, error);
+
+  // HTTP status from gaxios (status, response) or Graph (statusCode, headers)
+  const status = e.response?.status ?? e.status ?? e.statusCode;
+  if (typeof status === 'number' && status > 0) {
+    const retryAfter = e.response?.headers?.['retry-after'] ?? e.headers?.get?.('retry-after');
+    let body = e.response?.data ?? e.body;
+    if (typeof body === 'string') {
+      try {
+        body = JSON.parse(body);
+      } catch {
+        // Not JSON
+      }
+    }
+    return httpError(status, retryAfter, body, error) ?? error;
+  }
+
+  // Socket-level failures, wherever they surface
+  const codes = [e.code, (e.cause as { code?: unknown } | undefined)?.code];
+  if (codes.some((c) => typeof c === 'string' && TRANSIENT_CODES.has(c)) || message === 'fetch failed') {
+    return new TransientError(message, undefined, error);
+  }
+
+  return error;
+}
+
+// The shared error code of any error; errors we could not classify are UNKNOWN
+export function errorCode(error: unknown): ErrorCode {
+  const typed = classifyError(error);
+  return typed instanceof MailError ? typed.code : 'UNKNOWN';
+}
+
+// Structured error for tool results: the code to branch on, and what to do about it
+export function errorInfo(error: unknown): ErrorInfo {
+  const typed = classifyError(error);
+  const info: ErrorInfo = {
+    code: typed instanceof MailError ? typed.code : 'UNKNOWN',
+    message: typed instanceof Error ? typed.message : 'Unknown',
+  };
+
+  const retryAfterMs = (typed as { retryAfterMs?: number }).retryAfterMs;
+  if (retryAfterMs !== undefined) info.retryAfterSeconds = Math.ceil(retryAfterMs / 1000);
+  if (typed instanceof AuthExpiredError) {
+    info.hint = 'Run mail-agent auth <accountId> (or fix the password), then call reconnect_account';
+  } else if (typed instanceof PermissionDeniedError) {
+    info.hint = 'Run mail-agent auth <accountId> and approve every permission, then call reconnect_account';
+  } else if (typed instanceof AccountUnavailableError) {
+    info.hint = 'Check list_accounts, then call reconnect_account';
+  }
+  return info;
+}
+
+// One line for logs and audit entries, e.g. "[RATE_LIMITED] ... (retry after 30s)"
+export function describeError(error: unknown): string {
+  const { code, message, retryAfterSeconds } = errorInfo(error);
+  const retry = retryAfterSeconds !== undefined ? ` (retry after ${retryAfterSeconds}s)` : '';
+  return `[${code}] ${message}${retry}`;
+}
@@ -0,0 +1,210 @@
+import { createServer as createHttpServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'node:http';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { AccountManager } from './account-manager.js';
+import { createServer, McpSession, ServerOptions } from './server.js';
+
+const logger = {
+  info: (...args: unknown[]) => console.error('[HTTP]', ...args),
+  error: (...args: unknown[]) => console.error('[HTTP ERROR]', ...args),
+};
+
+const MCP_PATH = '/mcp';
+const HEALTH_PATH = '/health';
+// Large enough for send_email with attachments (base64) in a single request
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+const MIN_TOKEN_LENGTH = 16;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export interface HttpOptions {
+  host: string;
+  port: number;
+  tokens: string[];
+  // Sessions without requests for this long are closed, watches included
+  sessionIdleMs: number;
+}
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  session: McpSession;
+  // Index of the token that opened the session; no other token may use it
+  token: number;
+  lastSeen: number;
+  // Requests in flight, including open SSE streams; a session with any is not idle
+  open: number;
+}
+
+/**
+ * Serves MCP over Streamable HTTP (POST/GET/DELETE on /mcp, with SSE streams for
+ * notifications). Every client session gets its own MCP server and watches;
+ * accounts are shared. All MCP requests need a bearer token or X-API-Key.
+ */
+export async function startHttpServer(
+  manager: AccountManager,
+  serverOptions: ServerOptions,
+  options: HttpOptions
+): Promise<HttpServer> {
+  if (!options.tokens.length) {
+    throw new Error('HTTP transport requires at least one token in MCP_AUTH_TOKENS');
+  }
+  if (options.tokens.some((t) => t.length < MIN_TOKEN_LENGTH)) {
+    throw new Error(`Auth tokens must be at least ${MIN_TOKEN_LENGTH} characters`);
+  }
+
+  const tokens = options.tokens.map((t) => Buffer.from(t));
+  const sessions = new Map<string, HttpSession>();
+
+  // Index of the presented token, or -1
+  const authenticate = (req: IncomingMessage): number => {
+    const header = req.headers.authorization;
+    const apiKey = req.headers['x-api-key'];
+    const presented = header?.startsWith('Bearer ') ? header.slice(7).trim() : typeof apiKey === 'string' ? apiKey : '';
+    if (!presented) return -1;
+
+    const candidate = Buffer.from(presented);
+    // Compare against every token so the response time does not reveal which one matched
+    let matched = -1;
+    tokens.forEach((token, i) => {
+      if (token.length === candidate.length && timingSafeEqual(token, candidate)) matched = i;
+    });
+    return matched;
+  };
+
+  const handleMcp = async (req: IncomingMessage, res: ServerResponse, token: number): Promise<void> => {
+    const sessionId = req.headers['mcp-session-id'];
+
+    if (typeof sessionId === 'string') {
+      const existing = sessions.get(sessionId);
+      // A session ID alone does not grant access: another token's session looks like no session
+      if (!existing || existing.token !== token) {
+        sendJsonRpcError(res, 404, 'Session not found');
+        return;
+      }
+      existing.open++;
+      res.once('close', () => {
+        existing.open--;
+        existing.lastSeen = Date.now();
+      });
+      const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+      await existing.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    // Without a session ID, only an initialize request may open a new session
+    if (req.method !== 'POST') {
+      sendJsonRpcError(res, 400, 'Missing Mcp-Session-Id header');
+      return;
+    }
+    const body = await readJsonBody(req);
+    if (!isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Missing Mcp-Session-Id header');
+      return;
+    }
+
+    const session = createServer(manager, serverOptions);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, session, token, lastSeen: Date.now(), open: 0 });
+        logger.info(`Session ${id} opened (${sessions.size} active)`);
+      },
+    });
+    // Closing the session closes the transport again, so only the first call does the work
+    transport.onclose = () => {
+      const id = transport.sessionId;
+      if (!id || !sessions.delete(id)) return;
+      logger.info(`Session ${id} closed (${sessions.size} active)`);
+      session.close().catch((error) => logger.error('Failed to close session:', error));
+    };
+
+    await session.server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const server = createHttpServer((req, res) => {
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+
+    if (path === HEALTH_PATH && req.method === 'GET') {
+      sendJson(res, 200, { status: 'ok', accounts: manager.getAccounts().length, sessions: sessions.size });
+      return;
+    }
+
+    if (path !== MCP_PATH) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    const token = authenticate(req);
+    if (token < 0) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJsonRpcError(res, 401, 'Unauthorized');
+      return;
+    }
+
+    handleMcp(req, res, token).catch((error) => {
+      const status = error instanceof HttpError ? error.status : 500;
+      if (status === 500) logger.error('Request failed:', error);
+      if (!res.headersSent) sendJsonRpcError(res, status, error.message);
+      else res.end();
+    });
+  });
+
+  // Clients that vanish without a DELETE would otherwise keep their session and watches forever
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - options.sessionIdleMs;
+    for (const [id, { transport, lastSeen, open }] of sessions) {
+      if (open > 0 || lastSeen > cutoff) continue;
+      logger.info(`Session ${id} idle; closing`);
+      transport.close().catch((error) => logger.error('Failed to close idle session:', error));
+    }
+  }, Math.min(SWEEP_INTERVAL_MS, options.sessionIdleMs));
+  sweep.unref();
+  server.once('close', () => clearInterval(sweep));
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+  logger.info(`Listening on http://${options.host}:${options.port}${MCP_PATH}`);
+
+  return server;
+}
+
+class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code: -32000, message }, id: null });
+}
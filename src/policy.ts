@@ -0,0 +1,314 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { AccountManager } from './account-manager.js';
+import { CONFIRMABLE_TOOLS } from './confirmation.js';
+import { NotFoundError, PolicyDeniedError } from './errors.js';
+import { parseAddresses, replyRecipients } from './providers/compose.js';
+import { parseMessageId } from './providers/imap.js';
+import { parseQuery } from './query/index.js';
+import { AccountPolicy, Email, Folder } from './types.js';
+
+// Tools that only read mail; read-only accounts allow nothing else
+const READ_TOOLS = new Set([
+  'list_accounts',
+  'fetch_unread_emails',
+  'search_emails',
+  'get_email',
+  'get_thread',
+  'list_drafts',
+  'get_all_folders',
+  'list_attachments',
+  'get_attachment',
+  'subscribe_mailbox',
+  'unsubscribe_mailbox',
+  'get_audit_log',
+]);
+
+// Tools that run on every account when called without accountId
+const MULTI_ACCOUNT_TOOLS = new Set([
+  'fetch_unread_emails',
+  'search_emails',
+  'get_all_folders',
+  'subscribe_mailbox',
+  'unsubscribe_mailbox',
+]);
+
+// Tools that are not tied to an account (or manage accounts themselves)
+const GLOBAL_TOOLS = new Set(['list_accounts', 'get_audit_log', 'add_account', 'remove_account', 'reconnect_account']);
+
+// Tools that read or change the message named by emailId (get_email checks the message it loads)
+const EMAIL_TOOLS = new Set([
+  'mark_as_read',
+  'mark_as_unread',
+  'reply_email',
+  'forward_email',
+  'delete_email',
+  'move_email',
+  'archive_email',
+  'set_flag',
+  'add_labels',
+  'remove_labels',
+  'list_attachments',
+  'get_attachment',
+]);
+
+// Tools whose recipients come straight from the arguments
+const COMPOSE_TOOLS = new Set(['send_email', 'forward_email', 'create_draft', 'update_draft']);
+
+type ToolArgs = Record<string, unknown> | undefined;
+
+export function isReadTool(tool: string): boolean {
+  return READ_TOOLS.has(tool);
+}
+
+function isToolAllowed(policy: AccountPolicy | undefined, tool: string): boolean {
+  if (!policy) return true;
+  if (policy.readOnly && !READ_TOOLS.has(tool)) return false;
+  return !policy.allowedTools || policy.allowedTools.includes(tool);
+}
+
+function isFolderBlocked(policy: AccountPolicy | undefined, folder: string | undefined): boolean {
+  if (!policy?.blockedFolders || !folder) return false;
+  const name = folder.toLowerCase();
+  return policy.blockedFolders.some((f) => f.toLowerCase() === name);
+}
+
+function blockedFolder(policy: AccountPolicy | undefined, folders: (string | undefined)[]): string | undefined {
+  return folders.find((folder) => isFolderBlocked(policy, folder));
+}
+
+// Where a message is: Gmail labels act as folders, elsewhere labels are tags and the folder says
+function locationsOf(email: Email, provider: string): string[] {
+  if (provider === 'gmail') return email.labels || [];
+  return email.folder ? [email.folder] : [];
+}
+
+// Messages a call reads or changes, by account and ID (a bulk query's matches are filtered once found)
+function targetEmails(tool: string, args: ToolArgs): { accountId?: string; emailId: string }[] {
+  const items = args?.items as { accountId?: string; emailId?: string }[] | undefined;
+  if (tool === 'bulk_action' && Array.isArray(items)) {
+    return items.flatMap((item) => (item?.emailId ? [{ accountId: item.accountId, emailId: item.emailId }] : []));
+  }
+
+  const accountId = args?.accountId as string | undefined;
+  const ids = [EMAIL_TOOLS.has(tool) && args?.emailId, args?.inReplyToId];
+  return ids
+    .filter((id): id is string => typeof id === 'string' && id !== '')
+    .map((emailId) => ({ accountId, emailId }));
+}
+
+// Folders a call reads from, watches or writes into
+function targetFolders(tool: string, args: ToolArgs): (string | undefined)[] {
+  switch (tool) {
+    case 'search_emails':
+      return [parseQuery(args?.query as string | undefined).folder];
+    case 'subscribe_mailbox':
+      return [(args?.folder as string) || 'INBOX'];
+    case 'move_email':
+    case 'restore_email':
+      return [args?.folderId as string];
+    case 'bulk_action':
+      return [args?.folderId as string, parseQuery(args?.query as string | undefined).folder];
+    default:
+      return [];
+  }
+}
+
+// Accounts a call acts on; bulk actions may span several (undefined: the default account)
+function targetAccounts(tool: string, args: ToolArgs): (string | undefined)[] {
+  const items = args?.items as { accountId?: string }[] | undefined;
+  if (tool === 'bulk_action' && Array.isArray(items)) {
+    return [...new Set(items.map((item) => item?.accountId))];
+  }
+  return [args?.accountId as string | undefined];
+}
+
+/**
+ * Applies the per-account policies from accounts.json to tool calls. The server
+ * checks every call here before running it, and lists only tools some account allows.
+ */
+export class PolicyEnforcer {
+  constructor(private manager: AccountManager) {}
+
+  // A tool is listed when at least one account may use it
+  visibleTools(tools: Tool[]): Tool[] {
+    const ids = this.manager.getAccountIds();
+    return tools.filter(
+      (tool) => GLOBAL_TOOLS.has(tool.name) || ids.some((id) => isToolAllowed(this.manager.getPolicy(id), tool.name))
+    );
+  }
+
+  // Accounts a multi-account call (no accountId) may run on
+  accountsFor(tool: string, args: ToolArgs): string[] {
+    const folders = targetFolders(tool, args);
+    // Disconnected accounts are included so unified calls can report them
+    return this.manager.getAccountIds().filter((id) => {
+      // Stopping a watch is always allowed
+      if (tool === 'unsubscribe_mailbox') return true;
+      const policy = this.manager.getPolicy(id);
+      return isToolAllowed(policy, tool) && !blockedFolder(policy, folders);
+    });
+  }
+
+  // Throws when the call breaks the policy of the account it targets
+  async authorize(tool: string, args: ToolArgs): Promise<void> {
+    // Stopping a watch is always allowed
+    if (GLOBAL_TOOLS.has(tool) || tool === 'unsubscribe_mailbox') return;
+
+    const accountId = args?.accountId as string | undefined;
+    if (!accountId && MULTI_ACCOUNT_TOOLS.has(tool)) {
+      if (this.accountsFor(tool, args).length === 0) {
+        throw new PolicyDeniedError(`${tool} is not permitted on any account`);
+      }
+      return;
+    }
+
+    for (const target of targetAccounts(tool, args)) {
+      await this.authorizeAccount(tool, target, args);
+    }
+    for (const { accountId, emailId } of targetEmails(tool, args)) {
+      await this.checkEmailId(accountId, emailId);
+    }
+  }
+
+  private async authorizeAccount(tool: string, accountId: string | undefined, args: ToolArgs): Promise<void> {
+    // Tools without accountId act on the default account
+    const account = this.manager.getProvider(accountId).config;
+    const policy = account.policy;
+    if (!policy) return;
+
+    if (policy.readOnly && !READ_TOOLS.has(tool)) {
+      throw new PolicyDeniedError(`account "${account.id}" is read-only`);
+    }
+    if (!isToolAllowed(policy, tool)) {
+      throw new PolicyDeniedError(`${tool} is not permitted on account "${account.id}"`);
+    }
+
+    const folder = blockedFolder(policy, targetFolders(tool, args));
+    if (folder) this.checkFolder(account.id, folder);
+
+    if (policy.allowedRecipientDomains || policy.maxRecipients !== undefined) {
+      const recipients = await this.recipientsOf(tool, args, account.id);
+      if (recipients) this.checkRecipients(account.id, policy, recipients);
+    }
+  }
+
+  needsConfirmation(tool: string, args: ToolArgs): boolean {
+    // Nothing can undo these, so they are confirmed whatever the policy says
+    if (tool === 'empty_trash' || (tool === 'delete_email' && args?.permanent === true)) return true;
+    if (!CONFIRMABLE_TOOLS.has(tool) || args?.dryRun === true) return false;
+    return targetAccounts(tool, args).some((id) =>
+      this.manager.getPolicy(id)?.requireConfirmation?.includes(tool)
+    );
+  }
+
+  allowsFolder(accountId: string, folder: string | undefined): boolean {
+    return !isFolderBlocked(this.manager.getPolicy(accountId), folder);
+  }
+
+  // Throws when the folder is off limits for the account
+  checkFolder(accountId: string, folder: string | undefined): void {
+    if (!this.allowsFolder(accountId, folder)) {
+      throw new PolicyDeniedError(`folder "${folder}" is off limits on account "${accountId}"`);
+    }
+  }
+
+  // Drops blocked folders from a folder listing, whether they were blocked by name or ID
+  allowedFolders(accountId: string, folders: Folder[]): Folder[] {
+    return folders.filter((f) => this.allowsFolder(accountId, f.id) && this.allowsFolder(accountId, f.name));
+  }
+
+  // Drops messages that sit in a blocked folder, for results not scoped to one folder
+  async allowedEmails<T extends Email & { accountId: string }>(emails: T[]): Promise<T[]> {
+    const blocked = new Map<string, ((email: Email) => boolean) | null>();
+    for (const accountId of new Set(emails.map((e) => e.accountId))) {
+      blocked.set(accountId, await this.blockedMatcher(accountId));
+    }
+    return emails.filter((email) => !blocked.get(email.accountId)?.(email));
+  }
+
+  // Throws when the message sits in a folder that is off limits for its account
+  async checkEmail(email: Email & { accountId: string }): Promise<void> {
+    if ((await this.allowedEmails([email])).length === 0) {
+      throw new PolicyDeniedError(
+        `email ${email.id} is in a folder that is off limits on account "${email.accountId}"`
+      );
+    }
+  }
+
+  // Throws when the message behind an ID sits in a blocked folder. IMAP IDs name their mailbox;
+  // other messages are loaded to see where they are (a missing one is left to the tool to report)
+  async checkEmailId(accountId: string | undefined, emailId: string): Promise<void> {
+    const { config } = this.manager.getProvider(accountId);
+    if (!config.policy?.blockedFolders?.length) return;
+
+    if (config.provider === 'imap') {
+      this.checkFolder(config.id, parseMessageId(emailId).mailbox);
+      return;
+    }
+    const email = await this.manager.getMessage(config.id, emailId);
+    if (email) await this.checkEmail(email);
+  }
+
+  // Tells whether a message of the account is in a blocked folder; null when nothing is blocked.
+  // Folders are matched by name and by ID, since Outlook messages only carry their folder's ID.
+  private async blockedMatcher(accountId: string): Promise<((email: Email) => boolean) | null> {
+    const blockedFolders = this.manager.getPolicy(accountId)?.blockedFolders;
+    if (!blockedFolders?.length) return null;
+
+    const account = this.manager.getProvider(accountId);
+    const blocked = new Set(blockedFolders.map((f) => f.toLowerCase()));
+    for (const folder of await account.provider.getFolders()) {
+      if (blocked.has(folder.name.toLowerCase())) blocked.add(folder.id.toLowerCase());
+    }
+    return (email) => locationsOf(email, account.config.provider).some((l) => blocked.has(l.toLowerCase()));
+  }
+
+  private checkRecipients(accountId: string, policy: AccountPolicy, recipients: string[]): void {
+    if (policy.maxRecipients !== undefined && recipients.length > policy.maxRecipients) {
+      throw new PolicyDeniedError(
+        `${recipients.length} recipients exceed the limit of ${policy.maxRecipients} ` +
+          `on account "${accountId}"`
+      );
+    }
+
+    if (policy.allowedRecipientDomains) {
+      const allowed = policy.allowedRecipientDomains.map((d) => d.toLowerCase());
+      const rejected = recipients.filter((address) => {
+        const domain = address.slice(address.lastIndexOf('@') + 1).toLowerCase();
+        return !allowed.includes(domain);
+      });
+      if (rejected.length) {
+        throw new PolicyDeniedError(
+          `recipients outside the allowed domains of account "${accountId}": ` +
+            rejected.join(', ')
+        );
+      }
+    }
+  }
+
+  // Everyone the call would send to, or null when it sends nothing
+  private async recipientsOf(tool: string, args: ToolArgs, accountId: string): Promise<string[] | null> {
+    const extra = parseAddresses([...((args?.cc as string[]) || []), ...((args?.bcc as string[]) || [])]);
+
+    if (COMPOSE_TOOLS.has(tool)) {
+      return [...parseAddresses((args?.to as string[]) || []), ...extra];
+    }
+
+    if (tool === 'reply_email') {
+      const original = await this.manager.getMessage(accountId, args?.emailId as string);
+      if (!original) throw new NotFoundError(`Email not found: ${args?.emailId}`);
+      // Our own address is unknown here, so reply-all also checks it; allow your own domain
+      const { to, cc } = replyRecipients(original, '', args?.replyAll as boolean);
+      return [...to, ...cc, ...extra];
+    }
+
+    if (tool === 'send_draft') {
+      // Draft messages do not expose Bcc, so their recipients cannot be verified
+      throw new PolicyDeniedError(
+        `send_draft is unavailable on account "${accountId}" because it restricts recipients`
+      );
+    }
+
+    return null;
+  }
+}
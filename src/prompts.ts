@@ -0,0 +1,153 @@
+import { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Shared workflow prompts built on the server's own tools, so every client
+ * runs the same instructions instead of hand-typed variants.
+ */
+
+export interface PromptAccount {
+  id: string;
+  name: string;
+  provider: string;
+  isDefault: boolean;
+}
+
+type PromptArgs = Record<string, string | undefined>;
+
+interface PromptDefinition {
+  description: string;
+  arguments: { name: string; description: string; required?: boolean }[];
+  render: (args: PromptArgs, account?: PromptAccount) => string;
+}
+
+function accountScope(account?: PromptAccount): string {
+  return account ? `the account "${account.name}" (accountId: ${account.id})` : 'all connected accounts';
+}
+
+const PROMPTS: Record<string, PromptDefinition> = {
+  triage_inbox: {
+    description: 'Triage unread mail into urgent, needs reply, FYI and archivable, and propose next steps',
+    arguments: [
+      { name: 'accountId', description: 'Account to triage (default: all accounts)' },
+      { name: 'maxResults', description: 'Unread emails to review per account (default: 25)' },
+    ],
+    render: (args, account) =>
+      [
+        `Triage my unread inbox for ${accountScope(account)}.`,
+        '',
+        `1. Call fetch_unread_emails with maxResultsPerAccount=${args.maxResults || '25'}` +
+          (account ? ` and accountId="${account.id}"` : '') +
+          '. Use get_email only where the snippet is not enough to decide.',
+        '2. Sort every email into exactly one group:',
+        '   - Urgent: needs action today (deadlines, outages, high importance from real people)',
+        '   - Needs reply: a person is waiting on me, but not today',
+        '   - FYI: worth knowing, no action',
+        '   - Archive: newsletters, notifications, automated mail',
+        '3. Report the groups as short lists: sender, subject, one line on why, and the suggested action.',
+        '4. Propose concrete tool calls (mark_as_read, archive_email, set_flag, add_labels, create_draft) but',
+        '   do not run any of them until I confirm.',
+      ].join('\n'),
+  },
+
+  draft_reply: {
+    description: "Draft a reply to an email in the account owner's own writing style (saved as a draft, not sent)",
+    arguments: [
+      { name: 'accountId', description: 'Account the email belongs to', required: true },
+      { name: 'emailId', description: 'Email to reply to', required: true },
+      { name: 'intent', description: 'What the reply should say (default: infer a sensible reply)' },
+    ],
+    render: (args, account) =>
+      [
+        `Draft a reply to email ${args.emailId} in ${accountScope(account)}, written in my voice.`,
+        '',
+        `1. Call get_email (accountId="${account!.id}", emailId="${args.emailId}"),`,
+        '   then get_thread with its threadId for the full conversation.',
+        '2. Learn my style: call get_all_folders to find the Sent folder, then search_emails with',
+        '   query "in:<that folder>" and maxResults=10 on this account and read a few of my messages.',
+        '   Match their greeting, sign-off, length, formality and language.',
+        args.intent
+          ? `3. The reply should: ${args.intent}`
+          : '3. Work out what the sender needs and answer it; ask me if a decision is mine to make.',
+        `4. Save it with create_draft (accountId="${account!.id}", inReplyToId="${args.emailId}"), addressed to`,
+        '   the sender plus the other recipients where a reply-all fits. Do not send it.',
+        '5. Show me the draft text and the draft ID.',
+      ].join('\n'),
+  },
+
+  summarize_thread: {
+    description: 'Summarise an email conversation: participants, key points, decisions and open items',
+    arguments: [
+      { name: 'accountId', description: 'Account the thread belongs to', required: true },
+      { name: 'threadId', description: 'Thread ID (from email results)', required: true },
+    ],
+    render: (args, account) =>
+      [
+        `Summarise the email thread ${args.threadId} in ${accountScope(account)}.`,
+        '',
+        `1. Call get_thread (accountId="${account!.id}", threadId="${args.threadId}").`,
+        '2. Write the summary as:',
+        '   - Participants and their roles in the conversation',
+        '   - Key points, in chronological order',
+        '   - Decisions made',
+        '   - Open questions and action items, with owners and dates where stated',
+        '   - Whether I am expected to reply, and about what',
+        '3. Quote sparingly; keep it under 250 words unless the thread is long.',
+      ].join('\n'),
+  },
+
+  weekly_digest: {
+    description: "Digest of the last week's mail for one account, grouped by topic",
+    arguments: [{ name: 'accountId', description: 'Account to digest', required: true }],
+    render: (_args, account) =>
+      [
+        `Write a weekly digest of ${accountScope(account)}.`,
+        '',
+        `1. Call search_emails with accountId="${account!.id}", query "newer_than:7d" and maxResults=50.`,
+        '   Follow nextCursor until there are no more pages (or about 200 emails).',
+        '2. Group the mail by topic or project, not by sender. Fold newsletters and notifications',
+        '   into one "Automated" line with counts.',
+        '3. For each group: two or three sentences on what happened, and links to the key emails',
+        '   as mail://<accountId>/message/<emailId>.',
+        '4. End with "Still open": unread or flagged emails and threads where someone is waiting on me.',
+      ].join('\n'),
+  },
+};
+
+export function listPrompts(accounts: PromptAccount[]): Prompt[] {
+  const ids = accounts.map((a) => a.id).join(', ');
+
+  return Object.entries(PROMPTS).map(([name, prompt]) => ({
+    name,
+    description: prompt.description,
+    arguments: prompt.arguments.map((arg) =>
+      arg.name === 'accountId' && ids ? { ...arg, description: `${arg.description}. One of: ${ids}` } : arg
+    ),
+  }));
+}
+
+export function getPrompt(name: string, args: PromptArgs, accounts: PromptAccount[]): GetPromptResult {
+  const prompt = PROMPTS[name];
+  if (!prompt) throw new Error(`Unknown prompt: ${name}`);
+
+  for (const arg of prompt.arguments) {
+    if (arg.required && !args[arg.name]) throw new Error(`Missing required argument: ${arg.name}`);
+  }
+
+  let account: PromptAccount | undefined;
+  if (args.accountId) {
+    account = accounts.find((a) => a.id === args.accountId);
+    if (!account) throw new Error(`Account not found: ${args.accountId}`);
+  }
+
+  return {
+    description: prompt.description,
+    messages: [{ role: 'user', content: { type: 'text', text: prompt.render(args, account) } }],
+  };
+}
+
+// Completion for prompt arguments and resource template variables alike:
+// accountId is the only one with a known set of values
+export function completeArgument(argument: string, value: string, accounts: PromptAccount[]): string[] {
+  if (argument !== 'accountId') return [];
+  return accounts.map((a) => a.id).filter((id) => id.startsWith(value));
+}
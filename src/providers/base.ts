@@ -1,25 +1,179 @@
-import { Email, SearchOptions, SendOptions, Folder } from '../types.js';
+import {
+  Email,
+  SearchOptions,
+  SearchResult,
+  SendOptions,
+  Folder,
+  Attachment,
+  AttachmentContent,
+  ReplyOptions,
+  ForwardOptions,
+  DraftOptions,
+  Draft,
+  FlagOptions,
+  SyncChanges,
+  BulkAction,
+  BulkItemResult,
+  ConnectionHealth,
+  ConnectionStatus,
+} from '../types.js';
+import { errorCode, UnsupportedError } from '../errors.js';
+import { RequestScheduler } from './scheduler.js';
+
+const TEXT_MIME_TYPES = [
+  'application/json',
+  'application/xml',
+  'application/csv',
+  'application/javascript',
+  'application/x-yaml',
+];
 
 export abstract class EmailProvider {
   abstract readonly name: string;
 
+  private health: ConnectionHealth = { status: 'disconnected', since: new Date().toISOString() };
+
+  // Paces and retries provider requests; the AccountManager installs one per account
+  protected scheduler = new RequestScheduler('provider');
+
+  useScheduler(scheduler: RequestScheduler): void {
+    this.scheduler = scheduler;
+  }
+
+  // Connection state as last observed by the provider, reported by list_accounts
+  getHealth(): ConnectionHealth {
+    return this.health;
+  }
+
+  protected setHealth(status: ConnectionStatus, error?: string): void {
+    if (status === this.health.status && error === this.health.error) return;
+    this.health = { status, since: status === this.health.status ? this.health.since : new Date().toISOString(), error };
+  }
+
   abstract connect(): Promise<void>;
   abstract disconnect(): Promise<void>;
 
-  abstract fetchUnread(maxResults?: number): Promise<Email[]>;
-  abstract search(options: SearchOptions): Promise<Email[]>;
+  abstract fetchUnread(maxResults?: number, cursor?: string): Promise<SearchResult>;
+  abstract search(options: SearchOptions): Promise<SearchResult>;
   abstract getMessage(id: string): Promise<Email | null>;
+  abstract getThread(threadId: string): Promise<Email[]>;
   abstract markAsRead(id: string): Promise<void>;
   abstract markAsUnread(id: string): Promise<void>;
   abstract sendEmail(options: SendOptions): Promise<string>;
+  abstract replyEmail(id: string, options: ReplyOptions): Promise<string>;
+  abstract forwardEmail(id: string, options: ForwardOptions): Promise<string>;
   abstract getFolders(): Promise<Folder[]>;
 
+  abstract createDraft(options: DraftOptions): Promise<string>;
+  abstract updateDraft(draftId: string, options: DraftOptions): Promise<string>;
+  abstract listDrafts(maxResults?: number): Promise<Draft[]>;
+  abstract sendDraft(draftId: string): Promise<string>;
+  abstract deleteDraft(draftId: string): Promise<void>;
+
+  abstract setFlag(id: string, options: FlagOptions): Promise<void>;
+
+  abstract addLabels(id: string, labels: string[]): Promise<void>;
+  abstract removeLabels(id: string, labels: string[]): Promise<void>;
+  abstract createLabel(name: string): Promise<string>;
+  abstract deleteLabel(name: string): Promise<void>;
+
+  abstract listAttachments(emailId: string): Promise<Attachment[]>;
+  abstract getAttachment(emailId: string, attachmentId: string): Promise<AttachmentContent>;
+
   // Optional: delete, move, etc.
-  async deleteEmail(id: string): Promise<void> {
-    throw new Error('Delete not supported by this provider');
+
+  // Moves the message to Trash and returns its ID there (if known); permanent skips Trash
+  async deleteEmail(id: string, permanent = false): Promise<string | undefined> {
+    throw new UnsupportedError('Delete not supported by this provider');
+  }
+
+  // Moves a message out of Trash (to the inbox unless folderId is given); returns its new ID
+  async restoreEmail(id: string, folderId?: string): Promise<string | undefined> {
+    throw new UnsupportedError('Restore not supported by this provider');
+  }
+
+  // Permanently deletes messages in Trash older than the cutoff (0 = all); returns how many
+  async emptyTrash(olderThanDays: number): Promise<number> {
+    throw new UnsupportedError('Emptying trash not supported by this provider');
   }
 
   async moveEmail(id: string, folderId: string): Promise<void> {
-    throw new Error('Move not supported by this provider');
+    throw new UnsupportedError('Move not supported by this provider');
+  }
+
+  async archiveEmail(id: string): Promise<void> {
+    throw new UnsupportedError('Archive not supported by this provider');
+  }
+
+  // Applies one action to many messages. Providers override this with their batch APIs;
+  // the default runs the single-message operations one at a time.
+  async bulkAction(ids: string[], action: BulkAction): Promise<BulkItemResult[]> {
+    const results: BulkItemResult[] = [];
+    for (const id of ids) {
+      try {
+        let newId: string | undefined;
+        switch (action.type) {
+          case 'read':
+            await this.markAsRead(id);
+            break;
+          case 'unread':
+            await this.markAsUnread(id);
+            break;
+          case 'move':
+            await this.moveEmail(id, action.folderId!);
+            break;
+          case 'label':
+            await this.addLabels(id, action.labels!);
+            break;
+          case 'delete':
+            newId = await this.deleteEmail(id);
+            break;
+          case 'archive':
+            await this.archiveEmail(id);
+            break;
+        }
+        results.push({ id, success: true, newId });
+      } catch (error) {
+        results.push({
+          id,
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown',
+          errorCode: errorCode(error),
+        });
+      }
+    }
+    return results;
+  }
+
+  // Optional: report new mail in a folder until the returned stop function is called.
+  // Polling providers check every pollIntervalMs; push-capable ones may ignore it.
+  async watch(folder: string, onMail: (emails: Email[]) => void, pollIntervalMs: number): Promise<() => Promise<void>> {
+    throw new UnsupportedError('Watching not supported by this provider');
+  }
+
+  // Optional: incremental sync feeding the local cache
+  readonly supportsSync: boolean = false;
+
+  async syncChanges(state: string | undefined, batchSize: number): Promise<SyncChanges> {
+    throw new UnsupportedError('Sync not supported by this provider');
+  }
+
+  // Whether a search in this folder (undefined = the default scope) covers exactly the synced messages
+  isSyncedFolder(folder?: string): boolean {
+    return false;
+  }
+
+  // Shared by providers: decode text-like attachments, base64 the rest
+  protected toAttachmentContent(attachment: Attachment, data: Buffer): AttachmentContent {
+    const mimeType = attachment.mimeType.toLowerCase().split(';')[0].trim();
+    const isText =
+      mimeType.startsWith('text/') ||
+      mimeType.endsWith('+json') ||
+      mimeType.endsWith('+xml') ||
+      TEXT_MIME_TYPES.includes(mimeType);
+
+    return isText
+      ? { ...attachment, text: data.toString('utf-8') }
+      : { ...attachment, content: data.toString('base64') };
   }
 }
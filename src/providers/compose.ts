@@ -0,0 +1,113 @@
+import addressparser from 'nodemailer/lib/addressparser/index.js';
+import { Email } from '../types.js';
+
+// Normalise address fields ("Name <a@b>", "a@b, c@d") into bare addresses
+export function parseAddresses(values: (string | undefined)[] = []): string[] {
+  return values
+    .filter((v): v is string => !!v)
+    .flatMap((v) => addressparser(v, { flatten: true }))
+    .map((a) => a.address)
+    .filter(Boolean);
+}
+
+export function prefixSubject(subject: string, prefix: 'Re' | 'Fwd'): string {
+  const pattern = prefix === 'Re' ? /^re:/i : /^(fwd?|fw):/i;
+  return pattern.test(subject.trim()) ? subject : `${prefix}: ${subject}`;
+}
+
+// Reply goes to Reply-To (or From); reply-all adds the original To/Cc, minus ourselves
+export function replyRecipients(
+  original: Email,
+  ownAddress: string,
+  replyAll = false
+): { to: string[]; cc: string[] } {
+  const self = ownAddress.toLowerCase();
+  const notSelf = (a: string) => a.toLowerCase() !== self;
+
+  const primary = parseAddresses(original.replyTo?.length ? original.replyTo : [original.from]);
+  let to = primary.filter(notSelf);
+  // Replying to something we sent ourselves: answer the original recipients instead
+  if (to.length === 0) to = parseAddresses(original.to).filter(notSelf);
+
+  if (!replyAll) return { to, cc: [] };
+
+  const seen = new Set([self, ...to.map((a) => a.toLowerCase())]);
+  const addNew = (addresses: string[]) =>
+    addresses.filter((a) => {
+      const key = a.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+  const extraTo = addNew(parseAddresses(original.to));
+  const cc = addNew(parseAddresses(original.cc));
+
+  return { to: [...to, ...extraTo], cc };
+}
+
+export function threadingHeaders(original: Email): Record<string, string> {
+  if (!original.messageId) return {};
+  const references = [...(original.references || []), original.messageId];
+  return {
+    'In-Reply-To': original.messageId,
+    References: references.join(' '),
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(br|\/p|\/div)[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function originalText(original: Email): string {
+  return original.body || htmlToText(original.bodyHtml || '');
+}
+
+function originalHtml(original: Email): string {
+  return original.bodyHtml || escapeHtml(original.body).replace(/\n/g, '<br>');
+}
+
+export function quoteBody(original: Email, body: string, isHtml = false): string {
+  const attribution = `On ${new Date(original.date).toUTCString()}, ${original.from} wrote:`;
+
+  if (isHtml) {
+    return (
+      `${body}<br><br><div>${escapeHtml(attribution)}</div>` +
+      `<blockquote style="margin:0 0 0 .8ex;border-left:1px solid #ccc;padding-left:1ex">` +
+      `${originalHtml(original)}</blockquote>`
+    );
+  }
+
+  const quoted = originalText(original)
+    .split(/\r?\n/)
+    .map((line) => `> ${line}`)
+    .join('\n');
+  return `${body}\n\n${attribution}\n${quoted}`;
+}
+
+export function forwardBody(original: Email, body = '', isHtml = false): string {
+  const header = [
+    '---------- Forwarded message ---------',
+    `From: ${original.from}`,
+    `Date: ${new Date(original.date).toUTCString()}`,
+    `Subject: ${original.subject}`,
+    `To: ${original.to.join(', ')}`,
+    ...(original.cc?.length ? [`Cc: ${original.cc.join(', ')}`] : []),
+  ];
+
+  if (isHtml) {
+    return `${body}<br><br><div>${header.map(escapeHtml).join('<br>')}</div><br>${originalHtml(original)}`;
+  }
+
+  return `${body}\n\n${header.join('\n')}\n\n${originalText(original)}`;
+}
@@ -2,17 +2,79 @@ import { google, gmail_v1 } from 'googleapis';
 import { OAuth2Client } from 'google-auth-library';
 import fs from 'fs/promises';
 import { EmailProvider } from './base.js';
-import { Email, SearchOptions, SendOptions, Folder, GmailConfig } from '../types.js';
+import { buildMimeMessage, toBase64Url } from './mime.js';
+import { parseQuery, toGmailQuery } from '../query/index.js';
+import { decodeCursor, encodeCursor } from '../cursor.js';
+import { AccountUnavailableError, httpError, MailError, NotFoundError, PermissionDeniedError } from '../errors.js';
+import { forwardBody, prefixSubject, quoteBody, replyRecipients, threadingHeaders } from './compose.js';
+import {
+  Email,
+  SearchOptions,
+  SearchResult,
+  SendOptions,
+  Folder,
+  GmailConfig,
+  Attachment,
+  AttachmentContent,
+  ReplyOptions,
+  ForwardOptions,
+  DraftOptions,
+  Draft,
+  FlagOptions,
+  MessageUpdate,
+  SyncChanges,
+  BulkAction,
+  BulkItemResult,
+} from '../types.js';
 
 const logger = {
   info: (...args: unknown[]) => console.error('[Gmail]', ...args),
   error: (...args: unknown[]) => console.error('[Gmail ERROR]', ...args),
 };
 
+interface GmailCursor {
+  pageToken: string;
+}
+
+// Default searches skip spam and trash, so the cache does too
+const EXCLUDED_LABELS = ['SPAM', 'TRASH'];
+
+// messages.batchDelete / batchModify limit
+const BATCH_SIZE = 1000;
+
+// Permanent deletes need the full-access scope, which older tokens were not granted
+const PERMANENT_DELETE_SCOPE_ERROR =
+  'Permanent delete needs the https://mail.google.com/ scope. Run mail-agent auth for this account to grant it';
+
+interface GmailSyncState {
+  // Recorded before the backfill starts, so changes made during it are replayed afterwards
+  historyId: string;
+  backfill?: boolean;
+  // messages.list page during the backfill, history.list page afterwards
+  pageToken?: string;
+}
+
+function isForbidden(error: unknown): boolean {
+  return (error as { response?: { status?: number } })?.response?.status === 403;
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as { response?: { status?: number } }).response?.status === 404;
+}
+
+// Safe to repeat after a network error or 5xx; sends and inserts are not
+function isIdempotent(method: string | undefined): boolean {
+  return ['GET', 'HEAD', 'PUT', 'DELETE'].includes((method || 'GET').toUpperCase());
+}
+
 export class GmailProvider extends EmailProvider {
   readonly name = 'gmail';
+  readonly supportsSync = true;
   private gmail: gmail_v1.Gmail | null = null;
   private config: GmailConfig;
+  private emailAddress: string | null = null;
+  private labelNames: Map<string, string> | null = null;
+  private labelsRequest: Promise<Map<string, string>> | null = null;
 
   constructor(config: GmailConfig) {
     super();
@@ -23,42 +85,65 @@ export class GmailProvider extends EmailProvider {
     const tokenContent = await fs.readFile(this.config.tokenPath, 'utf-8');
     const credentials = JSON.parse(tokenContent);
     const auth = google.auth.fromJSON(credentials) as OAuth2Client;
-    this.gmail = google.gmail({ version: 'v1', auth });
+    this.gmail = google.gmail({
+      version: 'v1',
+      auth,
+      // Every request goes through the account's scheduler, which does the retrying
+      retry: false,
+      adapter: async (options, defaultAdapter) => {
+        let last: Awaited<ReturnType<typeof defaultAdapter>> | undefined;
+        try {
+          return await this.scheduler.run(async () => {
+            last = await defaultAdapter(options);
+            const error = httpError(last.status, last.headers?.['retry-after'], last.data);
+            if (error?.code === 'RATE_LIMITED' || error?.code === 'TRANSIENT') throw error;
+            return last;
+          }, isIdempotent(options.method));
+        } catch (error) {
+          // Out of retries: hand back the last response so the client raises its usual error
+          if (last && error instanceof MailError) return last;
+          throw error;
+        }
+      },
+    });
+    this.setHealth('connected');
     logger.info('Connected to Gmail');
   }
 
   async disconnect(): Promise<void> {
     this.gmail = null;
+    this.setHealth('disconnected');
   }
 
   private get api(): gmail_v1.Gmail {
-    if (!this.gmail) throw new Error('Not connected to Gmail');
+    if (!this.gmail) throw new AccountUnavailableError('Not connected to Gmail');
     return this.gmail;
   }
 
-  async fetchUnread(maxResults = 10): Promise<Email[]> {
-    return this.search({ query: 'is:unread', maxResults });
+  async fetchUnread(maxResults = 10, cursor?: string): Promise<SearchResult> {
+    return this.search({ query: 'is:unread', maxResults, cursor });
   }
 
-  async search(options: SearchOptions): Promise<Email[]> {
-    const { query = '', maxResults = 10 } = options;
+  async search(options: SearchOptions): Promise<SearchResult> {
+    const { query = '', maxResults = 10, cursor } = options;
     logger.info(`Searching: "${query}"`);
 
+    const parsed = parseQuery(query);
     const response = await this.api.users.messages.list({
       userId: 'me',
-      q: query,
+      q: toGmailQuery({ node: parsed.node, folder: options.folder || parsed.folder }),
       maxResults,
+      pageToken: cursor ? decodeCursor<GmailCursor>(cursor).pageToken : undefined,
     });
 
+    // Fetched in parallel; the scheduler keeps concurrency and rate within limits
     const messages = response.data.messages || [];
-    const emails: Email[] = [];
-
-    for (const msg of messages) {
-      const email = await this.getMessage(msg.id!);
-      if (email) emails.push(email);
-    }
+    const emails = (await Promise.all(messages.map((msg) => this.getMessage(msg.id!)))).filter(
+      (email): email is Email => !!email
+    );
 
-    return emails;
+    const { nextPageToken } = response.data;
+    return { emails, nextCursor: nextPageToken ? encodeCursor({ pageToken: nextPageToken }) : undefined };
   }
 
   async getMessage(id: string): Promise<Email | null> {
@@ -68,7 +153,24 @@ export class GmailProvider extends EmailProvider {
       format: 'full',
     });
 
-    const msg = response.data;
+    await this.loadLabels();
+    return this.mapMessage(response.data);
+  }
+
+  async getThread(threadId: string): Promise<Email[]> {
+    const response = await this.api.users.threads.get({
+      userId: 'me',
+      id: threadId,
+      format: 'full',
+    });
+
+    await this.loadLabels();
+    return (response.data.messages || [])
+      .map((msg) => this.mapMessage(msg))
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  private mapMessage(msg: gmail_v1.Schema$Message): Email {
     const headers = msg.payload?.headers || [];
 
     const getHeader = (name: string): string =>
@@ -101,12 +203,88 @@ export class GmailProvider extends EmailProvider {
       body,
       bodyHtml,
       date: new Date(parseInt(msg.internalDate!)),
-      isUnread: msg.labelIds?.includes('UNREAD') || false,
-      labels: msg.labelIds || [],
-      hasAttachments: msg.payload?.parts?.some((p) => p.filename) || false,
+      ...this.labelState(msg.labelIds || []),
+      hasAttachments: this.collectAttachmentParts(msg.payload).length > 0,
+      messageId: getHeader('Message-ID') || undefined,
+      references: getHeader('References').split(/\s+/).filter(Boolean),
+      replyTo: getHeader('Reply-To') ? [getHeader('Reply-To')] : undefined,
+    };
+  }
+
+  // Read state, star, importance and labels all come from the message's label IDs
+  private labelState(labelIds: string[]): Required<Omit<MessageUpdate, 'id'>> {
+    return {
+      isUnread: labelIds.includes('UNREAD'),
+      isFlagged: labelIds.includes('STARRED'),
+      importance: labelIds.includes('IMPORTANT') ? 'high' : 'normal',
+      labels: labelIds.map((id) => this.labelNames?.get(id) || id),
+    };
+  }
+
+  // Walk the MIME tree; attachments are the parts that carry a filename
+  private collectAttachmentParts(part?: gmail_v1.Schema$MessagePart): gmail_v1.Schema$MessagePart[] {
+    if (!part) return [];
+    const found = part.filename ? [part] : [];
+    for (const child of part.parts || []) {
+      found.push(...this.collectAttachmentParts(child));
+    }
+    return found;
+  }
+
+  private mapAttachmentPart(part: gmail_v1.Schema$MessagePart): Attachment {
+    const getHeader = (name: string): string | undefined =>
+      part.headers?.find((h) => h.name?.toLowerCase() === name.toLowerCase())?.value || undefined;
+
+    const contentId = getHeader('Content-ID')?.replace(/^<|>$/g, '');
+    const disposition = getHeader('Content-Disposition') || '';
+
+    return {
+      // Gmail attachmentIds change between requests, so the partId is the stable handle
+      id: part.partId!,
+      filename: part.filename!,
+      mimeType: part.mimeType || 'application/octet-stream',
+      size: part.body?.size || 0,
+      contentId,
+      isInline: disposition.toLowerCase().startsWith('inline'),
     };
   }
 
+  async listAttachments(emailId: string): Promise<Attachment[]> {
+    const response = await this.api.users.messages.get({
+      userId: 'me',
+      id: emailId,
+      format: 'full',
+    });
+
+    return this.collectAttachmentParts(response.data.payload).map((p) => this.mapAttachmentPart(p));
+  }
+
+  private async fetchPartData(emailId: string, part: gmail_v1.Schema$MessagePart): Promise<Buffer> {
+    let data = part.body?.data;
+    if (!data && part.body?.attachmentId) {
+      const attachment = await this.api.users.messages.attachments.get({
+        userId: 'me',
+        messageId: emailId,
+        id: part.body.attachmentId,
+      });
+      data = attachment.data.data;
+    }
+    return Buffer.from(data || '', 'base64');
+  }
+
+  async getAttachment(emailId: string, attachmentId: string): Promise<AttachmentContent> {
+    const response = await this.api.users.messages.get({
+      userId: 'me',
+      id: emailId,
+      format: 'full',
+    });
+
+    const part = this.collectAttachmentParts(response.data.payload).find((p) => p.partId === attachmentId);
+    if (!part) throw new NotFoundError(`Attachment not found: ${attachmentId}`);
+
+    return this.toAttachmentContent(this.mapAttachmentPart(part), await this.fetchPartData(emailId, part));
+  }
+
   async markAsRead(id: string): Promise<void> {
     await this.api.users.messages.modify({
       userId: 'me',
@@ -124,33 +302,148 @@ export class GmailProvider extends EmailProvider {
   }
 
   async sendEmail(options: SendOptions): Promise<string> {
-    const { to, cc, bcc, subject, body, isHtml } = options;
-
-    const messageParts = [
-      `To: ${to.join(', ')}`,
-      cc?.length ? `Cc: ${cc.join(', ')}` : '',
-      bcc?.length ? `Bcc: ${bcc.join(', ')}` : '',
-      `Subject: ${subject}`,
-      `Content-Type: ${isHtml ? 'text/html' : 'text/plain'}; charset=utf-8`,
-      '',
-      body,
-    ].filter(Boolean);
+    return this.deliver(options);
+  }
 
-    const raw = Buffer.from(messageParts.join('\r\n'))
-      .toString('base64')
-      .replace(/\+/g, '-')
-      .replace(/\//g, '_')
-      .replace(/=+$/, '');
+  private async deliver(
+    options: SendOptions,
+    extra: { headers?: Record<string, string>; threadId?: string } = {}
+  ): Promise<string> {
+    const raw = toBase64Url(await buildMimeMessage(options, { headers: extra.headers }));
 
     const response = await this.api.users.messages.send({
       userId: 'me',
-      requestBody: { raw },
+      requestBody: { raw, threadId: extra.threadId },
     });
 
     logger.info(`Sent email: ${response.data.id}`);
     return response.data.id!;
   }
 
+  private async getOwnAddress(): Promise<string> {
+    if (!this.emailAddress) {
+      const profile = await this.api.users.getProfile({ userId: 'me' });
+      this.emailAddress = profile.data.emailAddress || '';
+    }
+    return this.emailAddress;
+  }
+
+  async replyEmail(id: string, options: ReplyOptions): Promise<string> {
+    const original = await this.getMessage(id);
+    if (!original) throw new NotFoundError(`Email not found: ${id}`);
+
+    const recipients = replyRecipients(original, await this.getOwnAddress(), options.replyAll);
+
+    return this.deliver(
+      {
+        to: recipients.to,
+        cc: [...recipients.cc, ...(options.cc || [])],
+        bcc: options.bcc,
+        subject: prefixSubject(original.subject, 'Re'),
+        body: quoteBody(original, options.body, options.isHtml),
+        isHtml: options.isHtml,
+        attachments: options.attachments,
+      },
+      { headers: threadingHeaders(original), threadId: original.threadId }
+    );
+  }
+
+  async forwardEmail(id: string, options: ForwardOptions): Promise<string> {
+    const response = await this.api.users.messages.get({
+      userId: 'me',
+      id,
+      format: 'full',
+    });
+    const original = this.mapMessage(response.data);
+
+    const inherited = await Promise.all(
+      this.collectAttachmentParts(response.data.payload).map(async (part) => {
+        const meta = this.mapAttachmentPart(part);
+        return {
+          filename: meta.filename,
+          mimeType: meta.mimeType,
+          contentId: meta.contentId,
+          content: (await this.fetchPartData(id, part)).toString('base64'),
+        };
+      })
+    );
+
+    return this.deliver({
+      to: options.to,
+      cc: options.cc,
+      bcc: options.bcc,
+      subject: prefixSubject(original.subject, 'Fwd'),
+      body: forwardBody(original, options.body, options.isHtml),
+      isHtml: options.isHtml,
+      attachments: [...inherited, ...(options.attachments || [])],
+    });
+  }
+
+  // Raw MIME for a draft; reply context adds threading headers and the Gmail threadId
+  private async buildDraft(options: DraftOptions): Promise<gmail_v1.Schema$Message> {
+    let headers: Record<string, string> = {};
+    let threadId: string | undefined;
+    let subject = options.subject;
+
+    if (options.inReplyToId) {
+      const original = await this.getMessage(options.inReplyToId);
+      if (!original) throw new NotFoundError(`Email not found: ${options.inReplyToId}`);
+      headers = threadingHeaders(original);
+      threadId = original.threadId;
+      subject = prefixSubject(subject || original.subject, 'Re');
+    }
+
+    const raw = toBase64Url(await buildMimeMessage({ ...options, subject }, { headers }));
+    return { raw, threadId };
+  }
+
+  async createDraft(options: DraftOptions): Promise<string> {
+    const response = await this.api.users.drafts.create({
+      userId: 'me',
+      requestBody: { message: await this.buildDraft(options) },
+    });
+
+    logger.info(`Created draft: ${response.data.id}`);
+    return response.data.id!;
+  }
+
+  async updateDraft(draftId: string, options: DraftOptions): Promise<string> {
+    const response = await this.api.users.drafts.update({
+      userId: 'me',
+      id: draftId,
+      requestBody: { message: await this.buildDraft(options) },
+    });
+
+    return response.data.id!;
+  }
+
+  async listDrafts(maxResults = 10): Promise<Draft[]> {
+    const response = await this.api.users.drafts.list({ userId: 'me', maxResults });
+    const drafts: Draft[] = [];
+    await this.loadLabels();
+
+    for (const d of response.data.drafts || []) {
+      const draft = await this.api.users.drafts.get({ userId: 'me', id: d.id!, format: 'full' });
+      drafts.push({ id: draft.data.id!, message: this.mapMessage(draft.data.message!) });
+    }
+
+    return drafts;
+  }
+
+  async sendDraft(draftId: string): Promise<string> {
+    const response = await this.api.users.drafts.send({
+      userId: 'me',
+      requestBody: { id: draftId },
+    });
+
+    logger.info(`Sent draft ${draftId}: ${response.data.id}`);
+    return response.data.id!;
+  }
+
+  async deleteDraft(draftId: string): Promise<void> {
+    await this.api.users.drafts.delete({ userId: 'me', id: draftId });
+  }
+
   async getFolders(): Promise<Folder[]> {
     const response = await this.api.users.labels.list({ userId: 'me' });
     return (response.data.labels || []).map((l) => ({
@@ -160,7 +453,363 @@ export class GmailProvider extends EmailProvider {
     }));
   }
 
-  async deleteEmail(id: string): Promise<void> {
-    await this.api.users.messages.trash({ userId: 'me', id });
+  async deleteEmail(id: string, permanent = false): Promise<string | undefined> {
+    if (!permanent) {
+      await this.api.users.messages.trash({ userId: 'me', id });
+      return id;
+    }
+
+    try {
+      await this.api.users.messages.delete({ userId: 'me', id });
+    } catch (error) {
+      if (isForbidden(error)) throw new PermissionDeniedError(PERMANENT_DELETE_SCOPE_ERROR, error);
+      throw error;
+    }
+    return undefined;
+  }
+
+  // Untrash puts the message back under the labels it had
+  async restoreEmail(id: string, folderId?: string): Promise<string | undefined> {
+    await this.api.users.messages.untrash({ userId: 'me', id });
+    if (folderId) await this.moveEmail(id, folderId);
+    return id;
+  }
+
+  async emptyTrash(olderThanDays: number): Promise<number> {
+    const ids: string[] = [];
+    let pageToken: string | undefined;
+    do {
+      const response = await this.api.users.messages.list({
+        userId: 'me',
+        labelIds: ['TRASH'],
+        includeSpamTrash: true,
+        q: olderThanDays > 0 ? `older_than:${olderThanDays}d` : undefined,
+        maxResults: 500,
+        pageToken,
+      });
+      ids.push(...(response.data.messages || []).map((m) => m.id!));
+      pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken);
+
+    try {
+      for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+        await this.api.users.messages.batchDelete({
+          userId: 'me',
+          requestBody: { ids: ids.slice(i, i + BATCH_SIZE) },
+        });
+      }
+    } catch (error) {
+      if (isForbidden(error)) throw new PermissionDeniedError(PERMANENT_DELETE_SCOPE_ERROR, error);
+      throw error;
+    }
+    return ids.length;
+  }
+
+  // Label ID -> name, refreshed when a lookup misses or labels are created/deleted
+  private async loadLabels(refresh = false): Promise<Map<string, string>> {
+    if (!this.labelNames || refresh) {
+      // Parallel message fetches share one labels request
+      this.labelsRequest ??= this.api.users.labels
+        .list({ userId: 'me' })
+        .then((response) => new Map((response.data.labels || []).map((l) => [l.id!, l.name!])))
+        .finally(() => {
+          this.labelsRequest = null;
+        });
+      this.labelNames = await this.labelsRequest;
+    }
+    return this.labelNames;
+  }
+
+  // Accept either a label ID or a (case-insensitive) label name
+  private async findLabelId(idOrName: string): Promise<string | undefined> {
+    for (const refresh of [false, true]) {
+      const labels = await this.loadLabels(refresh);
+      if (labels.has(idOrName)) return idOrName;
+      for (const [id, name] of labels) {
+        if (name.toLowerCase() === idOrName.toLowerCase()) return id;
+      }
+    }
+    return undefined;
+  }
+
+  private async resolveLabelId(idOrName: string): Promise<string> {
+    const id = await this.findLabelId(idOrName);
+    if (!id) throw new NotFoundError(`Label not found: ${idOrName}`);
+    return id;
+  }
+
+  // Gmail has no folders: moving adds the target label and takes the message out of the inbox
+  async moveEmail(id: string, folderId: string): Promise<void> {
+    const labelId = await this.resolveLabelId(folderId);
+    await this.api.users.messages.modify({
+      userId: 'me',
+      id,
+      requestBody: {
+        addLabelIds: [labelId],
+        removeLabelIds: labelId === 'INBOX' ? [] : ['INBOX'],
+      },
+    });
+  }
+
+  async archiveEmail(id: string): Promise<void> {
+    await this.api.users.messages.modify({
+      userId: 'me',
+      id,
+      requestBody: { removeLabelIds: ['INBOX'] },
+    });
+  }
+
+  // Every action is a label change, so batchModify covers them all. A failed batch is
+  // retried message by message to find out which ones failed.
+  async bulkAction(ids: string[], action: BulkAction): Promise<BulkItemResult[]> {
+    const addLabelIds: string[] = [];
+    const removeLabelIds: string[] = [];
+
+    switch (action.type) {
+      case 'read':
+        removeLabelIds.push('UNREAD');
+        break;
+      case 'unread':
+        addLabelIds.push('UNREAD');
+        break;
+      case 'archive':
+        removeLabelIds.push('INBOX');
+        break;
+      case 'delete':
+        addLabelIds.push('TRASH');
+        break;
+      case 'move': {
+        const labelId = await this.resolveLabelId(action.folderId!);
+        addLabelIds.push(labelId);
+        if (labelId !== 'INBOX') removeLabelIds.push('INBOX');
+        break;
+      }
+      case 'label':
+        for (const label of action.labels!) {
+          addLabelIds.push((await this.findLabelId(label)) || (await this.createLabel(label)));
+        }
+        break;
+    }
+
+    const results: BulkItemResult[] = [];
+    for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+      const chunk = ids.slice(i, i + BATCH_SIZE);
+      try {
+        await this.api.users.messages.batchModify({
+          userId: 'me',
+          requestBody: { ids: chunk, addLabelIds, removeLabelIds },
+        });
+        results.push(...chunk.map((id) => ({ id, success: true, newId: action.type === 'delete' ? id : undefined })));
+      } catch (error) {
+        logger.error('batchModify failed, retrying one by one:', error);
+        results.push(...(await super.bulkAction(chunk, action)));
+      }
+    }
+    return results;
+  }
+
+  async setFlag(id: string, options: FlagOptions): Promise<void> {
+    await this.api.users.messages.modify({
+      userId: 'me',
+      id,
+      requestBody: options.flagged ? { addLabelIds: ['STARRED'] } : { removeLabelIds: ['STARRED'] },
+    });
+  }
+
+  async addLabels(id: string, labels: string[]): Promise<void> {
+    // Unknown names are created, matching how Outlook categories and IMAP keywords behave
+    const labelIds: string[] = [];
+    for (const label of labels) {
+      labelIds.push((await this.findLabelId(label)) || (await this.createLabel(label)));
+    }
+
+    await this.api.users.messages.modify({
+      userId: 'me',
+      id,
+      requestBody: { addLabelIds: labelIds },
+    });
+  }
+
+  async removeLabels(id: string, labels: string[]): Promise<void> {
+    const labelIds: string[] = [];
+    for (const label of labels) {
+      labelIds.push(await this.resolveLabelId(label));
+    }
+
+    await this.api.users.messages.modify({
+      userId: 'me',
+      id,
+      requestBody: { removeLabelIds: labelIds },
+    });
+  }
+
+  async createLabel(name: string): Promise<string> {
+    const response = await this.api.users.labels.create({
+      userId: 'me',
+      requestBody: { name, labelListVisibility: 'labelShow', messageListVisibility: 'show' },
+    });
+
+    await this.loadLabels(true);
+    logger.info(`Created label: ${name}`);
+    return response.data.id!;
+  }
+
+  async deleteLabel(name: string): Promise<void> {
+    const id = await this.resolveLabelId(name);
+    await this.api.users.labels.delete({ userId: 'me', id });
+    await this.loadLabels(true);
+  }
+
+  // Polls history.list for messages added to the folder's label (Gmail has no push without Pub/Sub)
+  async watch(folder: string, onMail: (emails: Email[]) => void, pollIntervalMs: number): Promise<() => Promise<void>> {
+    const labelId = await this.resolveLabelId(folder);
+    const currentHistoryId = async () => (await this.api.users.getProfile({ userId: 'me' })).data.historyId!;
+    let historyId = await currentHistoryId();
+    let polling = false;
+
+    const poll = async () => {
+      if (polling) return;
+      polling = true;
+      try {
+        const ids = new Set<string>();
+        let pageToken: string | undefined;
+        do {
+          const response = await this.api.users.history.list({
+            userId: 'me',
+            startHistoryId: historyId,
+            labelId,
+            historyTypes: ['messageAdded'],
+            pageToken,
+          });
+          for (const record of response.data.history || []) {
+            for (const { message } of record.messagesAdded || []) {
+              if (message?.labelIds?.includes(labelId)) ids.add(message.id!);
+            }
+          }
+          pageToken = response.data.nextPageToken || undefined;
+          if (!pageToken && response.data.historyId) historyId = response.data.historyId;
+        } while (pageToken);
+
+        if (ids.size) {
+          const { emails } = await this.fetchExisting([...ids]);
+          if (emails.length) onMail(emails);
+        }
+      } catch (error) {
+        if (isNotFound(error)) historyId = await currentHistoryId().catch(() => historyId);
+        logger.error(`Watch poll failed for ${folder}:`, error);
+      } finally {
+        polling = false;
+      }
+    };
+
+    const timer = setInterval(poll, pollIntervalMs);
+    return async () => clearInterval(timer);
+  }
+
+  // The sync covers all mail except spam and trash: the scope of a search without in:
+  isSyncedFolder(folder?: string): boolean {
+    return !folder;
+  }
+
+  async syncChanges(state: string | undefined, batchSize: number): Promise<SyncChanges> {
+    const current: GmailSyncState | undefined = state ? JSON.parse(state) : undefined;
+    if (!current || current.backfill) return this.syncBackfill(current, batchSize);
+
+    try {
+      return await this.syncHistory(current, batchSize);
+    } catch (error) {
+      // History is only kept for about a week; after that, start over
+      if (!isNotFound(error)) throw error;
+      logger.info('History ID expired, resyncing from scratch');
+      return { ...(await this.syncBackfill(undefined, batchSize)), reset: true };
+    }
+  }
+
+  // Fetch full messages, skipping any deleted since they were listed
+  private async fetchExisting(ids: string[]): Promise<{ emails: Email[]; missing: string[] }> {
+    const missing: string[] = [];
+    const fetched = await Promise.all(
+      ids.map(async (id) => {
+        try {
+          return await this.getMessage(id);
+        } catch (error) {
+          if (!isNotFound(error)) throw error;
+          missing.push(id);
+          return null;
+        }
+      })
+    );
+    return { emails: fetched.filter((email): email is Email => !!email), missing };
+  }
+
+  private async syncBackfill(current: GmailSyncState | undefined, batchSize: number): Promise<SyncChanges> {
+    const historyId = current?.historyId ?? (await this.api.users.getProfile({ userId: 'me' })).data.historyId!;
+
+    const response = await this.api.users.messages.list({
+      userId: 'me',
+      maxResults: batchSize,
+      pageToken: current?.pageToken,
+    });
+    const { emails } = await this.fetchExisting((response.data.messages || []).map((m) => m.id!));
+
+    const { nextPageToken } = response.data;
+    const next: GmailSyncState = nextPageToken ? { historyId, backfill: true, pageToken: nextPageToken } : { historyId };
+    return { upserted: emails, updated: [], deleted: [], state: JSON.stringify(next), hasMore: !!nextPageToken };
+  }
+
+  private async syncHistory(current: GmailSyncState, batchSize: number): Promise<SyncChanges> {
+    const response = await this.api.users.history.list({
+      userId: 'me',
+      startHistoryId: current.historyId,
+      maxResults: batchSize,
+      pageToken: current.pageToken,
+    });
+
+    // Replay the records in order; only the final state of each message matters
+    const added = new Set<string>();
+    const deleted = new Set<string>();
+    const relabeled = new Map<string, string[]>();
+
+    const remove = (id: string) => {
+      added.delete(id);
+      relabeled.delete(id);
+      deleted.add(id);
+    };
+
+    for (const record of response.data.history || []) {
+      for (const { message } of record.messagesAdded || []) {
+        if (message?.labelIds?.some((l) => EXCLUDED_LABELS.includes(l))) continue;
+        deleted.delete(message!.id!);
+        added.add(message!.id!);
+      }
+      for (const { message } of record.messagesDeleted || []) {
+        remove(message!.id!);
+      }
+      for (const { message } of [...(record.labelsAdded || []), ...(record.labelsRemoved || [])]) {
+        const id = message!.id!;
+        const labelIds = message!.labelIds || [];
+        if (labelIds.some((l) => EXCLUDED_LABELS.includes(l))) {
+          remove(id);
+        } else if (deleted.has(id)) {
+          // Back out of spam/trash: the cache dropped it, so fetch it again
+          deleted.delete(id);
+          added.add(id);
+        } else if (!added.has(id)) {
+          relabeled.set(id, labelIds);
+        }
+      }
+    }
+
+    const { emails, missing } = await this.fetchExisting([...added]);
+    missing.forEach((id) => deleted.add(id));
+
+    await this.loadLabels();
+    const updated = [...relabeled].map(([id, labelIds]) => ({ id, ...this.labelState(labelIds) }));
+
+    const { nextPageToken } = response.data;
+    const next: GmailSyncState = nextPageToken
+      ? { historyId: current.historyId, pageToken: nextPageToken }
+      : { historyId: response.data.historyId || current.historyId };
+    return { upserted: emails, updated, deleted: [...deleted], state: JSON.stringify(next), hasMore: !!nextPageToken };
   }
 }
@@ -1,28 +1,154 @@
 import Imap from 'imap';
-import { simpleParser, ParsedMail } from 'mailparser';
+import { randomUUID } from 'crypto';
+import { simpleParser, ParsedMail, AddressObject } from 'mailparser';
 import nodemailer from 'nodemailer';
 import { EmailProvider } from './base.js';
-import { Email, SearchOptions, SendOptions, Folder, IMAPConfig } from '../types.js';
+import { buildMimeMessage, resolveAttachments, toNodemailerAttachments } from './mime.js';
+import { parseQuery, toImapCriteria } from '../query/index.js';
+import { decodeCursor, encodeCursor } from '../cursor.js';
+import {
+  AccountUnavailableError,
+  errorCode,
+  InvalidRequestError,
+  NotFoundError,
+  TransientError,
+  UnsupportedError,
+} from '../errors.js';
+import { forwardBody, prefixSubject, quoteBody, replyRecipients, threadingHeaders } from './compose.js';
+import {
+  Email,
+  SearchOptions,
+  SearchResult,
+  SendOptions,
+  Folder,
+  IMAPConfig,
+  Attachment,
+  AttachmentContent,
+  ReplyOptions,
+  ForwardOptions,
+  DraftOptions,
+  Draft,
+  FlagOptions,
+  Importance,
+  MessageUpdate,
+  SyncChanges,
+  BulkAction,
+  BulkItemResult,
+} from '../types.js';
 
 const logger = {
   info: (...args: unknown[]) => console.error('[IMAP]', ...args),
   error: (...args: unknown[]) => console.error('[IMAP ERROR]', ...args),
 };
 
+// Backoff between reconnect attempts after the server drops a connection: 1s, 2s, 4s ... 5 min
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 5 * 60 * 1000;
+
+// Retrying a rejected login only risks a lockout
+function isAuthFailure(error: unknown): boolean {
+  const { source, textCode } = (error || {}) as { source?: string; textCode?: string };
+  return source === 'authentication' || textCode === 'AUTHENTICATIONFAILED';
+}
+
+// RFC 3501 atoms: no spaces, controls or list/quoted/resp specials
+const KEYWORD_PATTERN = /^[^\s(){%*"\\\]]+$/;
+
+function validateKeywords(labels: string[]): void {
+  const invalid = labels.filter((l) => !KEYWORD_PATTERN.test(l));
+  if (invalid.length) {
+    throw new InvalidRequestError(`Invalid IMAP keyword(s): ${invalid.join(', ')} (no spaces or special characters)`);
+  }
+}
+
+// Importance / X-Priority headers (X-Priority: 1-2 high, 4-5 low)
+function parseImportance(parsed: ParsedMail): Importance {
+  const importance = String(parsed.headers.get('importance') || '').toLowerCase();
+  if (importance === 'high' || importance === 'low') return importance;
+
+  const priority = parseInt(String(parsed.headers.get('x-priority') || '3'));
+  if (priority <= 2) return 'high';
+  if (priority >= 4) return 'low';
+  return 'normal';
+}
+
+function addressList(value?: AddressObject | AddressObject[]): string[] | undefined {
+  if (!value) return undefined;
+  return Array.isArray(value) ? value.map((a) => a.text) : [value.text];
+}
+
+// System flags start with a backslash; everything else is a keyword
+function flagState(flags: string[]): Pick<Email, 'isUnread' | 'isFlagged' | 'labels'> {
+  return {
+    isUnread: !flags.includes('\\Seen'),
+    isFlagged: flags.includes('\\Flagged'),
+    labels: flags.filter((f) => !f.startsWith('\\')),
+  };
+}
+
+// A UID only identifies a message within its mailbox, so message IDs are "<mailbox>:<uid>"
+function toMessageId(mailbox: string, uid: number): string {
+  return `${mailbox}:${uid}`;
+}
+
+// Mailbox names may contain colons, UIDs never do. A bare UID (an ID from before mailboxes were
+// part of it) belongs to the mailbox the calling method always used, passed as fallback.
+export function parseMessageId(id: string, fallback = 'INBOX'): { mailbox: string; uid: number } {
+  const colon = id.lastIndexOf(':');
+  const mailbox = colon === -1 ? fallback : id.slice(0, colon);
+  const uid = Number(id.slice(colon + 1));
+  if (!mailbox || !Number.isInteger(uid) || uid <= 0) throw new InvalidRequestError(`Invalid email ID: ${id}`);
+  return { mailbox, uid };
+}
+
+interface IMAPCursor {
+  uidValidity: number;
+  before: number;
+}
+
+interface IMAPSyncState {
+  // Mailbox the message IDs in the cache belong to; states without it hold bare UIDs
+  mailbox?: string;
+  uidValidity: number;
+  // Highest UID already synced; anything above it is new
+  lastUid: number;
+  // HIGHESTMODSEQ at the last sync (CONDSTORE servers only)
+  modseq?: string;
+}
+
+interface FetchedMessage {
+  parsed: ParsedMail;
+  flags: string[];
+}
+
+// THREAD responses are nested UID lists; node-imap implements thread() but @types/imap omits it
+type ThreadNode = number | ThreadNode[];
+
+interface ThreadCapable {
+  thread(algorithm: string, criteria: any[], callback: (err: Error | null, threads: ThreadNode[]) => void): void;
+}
+
 export class IMAPProvider extends EmailProvider {
   readonly name = 'imap';
+  readonly supportsSync = true;
   private imap: Imap | null = null;
   private transporter: nodemailer.Transporter | null = null;
   private config: IMAPConfig;
+  private specialUseBoxes = new Map<string, string>();
+  // Background sync keeps INBOX open on its own connection, so it never switches
+  // mailboxes under a tool call in flight
+  private syncImap: Imap | null = null;
+  // Set by disconnect() so dropped connections are not re-opened
+  private closing = false;
+  private reconnecting = false;
 
   constructor(config: IMAPConfig) {
     super();
     this.config = config;
   }
 
-  async connect(): Promise<void> {
-    // IMAP connection
-    this.imap = new Imap({
+  private async openConnection(): Promise<Imap> {
+    const imap = new Imap({
       user: this.config.user,
       password: this.config.password,
       host: this.config.host,
@@ -32,10 +158,82 @@ export class IMAPProvider extends EmailProvider {
     });
 
     await new Promise<void>((resolve, reject) => {
-      this.imap!.once('ready', () => resolve());
-      this.imap!.once('error', reject);
-      this.imap!.connect();
+      imap.once('ready', () => resolve());
+      imap.once('error', reject);
+      imap.connect();
     });
+    // Socket errors after login are followed by "close", which triggers any reconnect
+    imap.on('error', (error: Error) => logger.error(`Connection error (${this.config.host}):`, error.message));
+    return imap;
+  }
+
+  // Keep the tool connection open: when the server drops it, reconnect in the background
+  private attach(imap: Imap): void {
+    this.imap = imap;
+    imap.once('close', () => {
+      if (this.imap !== imap || this.closing) return;
+      this.imap = null;
+      this.reconnecting = true;
+      this.setHealth('degraded', 'Connection lost');
+      logger.error(`Connection to ${this.config.host} lost; reconnecting`);
+
+      this.reconnect(
+        `to ${this.config.host}`,
+        async () => {
+          const next = await this.openConnection();
+          if (this.closing) {
+            next.end();
+            return;
+          }
+          this.attach(next);
+          this.setHealth('connected');
+        },
+        () => this.closing,
+        true
+      ).finally(() => {
+        this.reconnecting = false;
+      });
+    });
+  }
+
+  // Retry open() with exponential backoff until it succeeds, the login is rejected, or cancelled() is true
+  private async reconnect(
+    label: string,
+    open: () => Promise<void>,
+    cancelled: () => boolean,
+    trackHealth: boolean
+  ): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+      const delay = Math.min(RECONNECT_BASE_MS * 2 ** attempt, RECONNECT_MAX_MS);
+      await new Promise((resolve) => setTimeout(resolve, delay).unref());
+      if (cancelled()) return;
+
+      try {
+        await open();
+        logger.info(`Reconnected ${label}`);
+        return;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown';
+        if (isAuthFailure(error)) {
+          if (trackHealth) this.setHealth('auth-expired', message);
+          logger.error(`Login rejected ${label}; giving up until the account is reconnected: ${message}`);
+          return;
+        }
+        if (trackHealth) this.setHealth('degraded', message);
+        logger.error(`Reconnecting ${label} failed (attempt ${attempt + 1}): ${message}`);
+      }
+    }
+  }
+
+  async connect(): Promise<void> {
+    // IMAP connection
+    this.closing = false;
+    try {
+      this.attach(await this.openConnection());
+    } catch (error) {
+      if (isAuthFailure(error)) this.setHealth('auth-expired', error instanceof Error ? error.message : 'Unknown');
+      throw error;
+    }
 
     // SMTP transporter for sending
     this.transporter = nodemailer.createTransport({
@@ -48,58 +246,200 @@ export class IMAPProvider extends EmailProvider {
       },
     });
 
+    this.setHealth('connected');
     logger.info(`Connected to ${this.config.host}`);
   }
 
   async disconnect(): Promise<void> {
+    this.closing = true;
+    this.setHealth('disconnected');
     if (this.imap) {
       this.imap.end();
       this.imap = null;
     }
+    if (this.syncImap) {
+      this.syncImap.end();
+      this.syncImap = null;
+    }
     this.transporter = null;
   }
 
   private get api(): Imap {
-    if (!this.imap) throw new Error('Not connected to IMAP');
+    if (this.reconnecting) throw new TransientError('IMAP connection lost; reconnecting');
+    if (!this.imap) throw new AccountUnavailableError('Not connected to IMAP');
     return this.imap;
   }
 
-  private openBox(name: string, readOnly = true): Promise<Imap.Box> {
+  private async getSyncConnection(): Promise<Imap> {
+    if (this.syncImap?.state !== 'authenticated') {
+      this.syncImap?.end();
+      this.syncImap = await this.openConnection();
+    }
+    return this.syncImap;
+  }
+
+  private openBox(name: string, readOnly = true, imap = this.api): Promise<Imap.Box> {
     return new Promise((resolve, reject) => {
-      this.api.openBox(name, readOnly, (err, box) => {
+      imap.openBox(name, readOnly, (err, box) => {
         if (err) reject(err);
         else resolve(box);
       });
     });
   }
 
-  private searchMessages(criteria: any[]): Promise<number[]> {
+  private searchMessages(criteria: any[], imap = this.api): Promise<number[]> {
     return new Promise((resolve, reject) => {
-      this.api.search(criteria, (err, uids) => {
+      imap.search(criteria, (err, uids) => {
         if (err) reject(err);
         else resolve(uids || []);
       });
     });
   }
 
-  private fetchMessage(uid: number): Promise<Email> {
+  private appendMessage(mailbox: string, raw: Buffer, flags: string[]): Promise<number | undefined> {
+    return new Promise((resolve, reject) => {
+      // node-imap passes the APPENDUID result as an extra argument when the server supports UIDPLUS
+      const callback = (err: Error | null, uid?: number) => {
+        if (err) reject(err);
+        else resolve(uid);
+      };
+      this.api.append(raw, { mailbox, flags }, callback as (err: Error) => void);
+    });
+  }
+
+  // Flag and expunge only the given UIDs (UID EXPUNGE when UIDPLUS is available)
+  private expungeUids(uids: number[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.api.addFlags(uids, ['\\Deleted'], (err) => {
+        if (err) return reject(err);
+        const done = (expErr: Error) => (expErr ? reject(expErr) : resolve());
+        if (this.api.serverSupports('UIDPLUS')) this.api.expunge(uids, done);
+        else this.api.expunge(done);
+      });
+    });
+  }
+
+  private listBoxes(): Promise<{ path: string; attribs: string[] }[]> {
+    return new Promise((resolve, reject) => {
+      this.api.getBoxes((err, boxes) => {
+        if (err) reject(err);
+        else {
+          const result: { path: string; attribs: string[] }[] = [];
+          const traverse = (obj: any, prefix = '') => {
+            for (const [name, box] of Object.entries(obj) as any) {
+              result.push({ path: prefix + name, attribs: box.attribs || [] });
+              if (box.children) traverse(box.children, prefix + name + box.delimiter);
+            }
+          };
+          traverse(boxes);
+          resolve(result);
+        }
+      });
+    });
+  }
+
+  // Locate a mailbox by its RFC 6154 special-use attribute, falling back to common names
+  private async findSpecialUseBox(attribute: string, fallbacks: string[]): Promise<string> {
+    const cached = this.specialUseBoxes.get(attribute);
+    if (cached) return cached;
+
+    const boxes = await this.listBoxes();
+    const match =
+      boxes.find((b) => b.attribs.includes(attribute)) ||
+      boxes.find((b) => fallbacks.some((f) => f.toLowerCase() === b.path.toLowerCase()));
+    if (!match) throw new NotFoundError(`No ${attribute} mailbox found`);
+
+    this.specialUseBoxes.set(attribute, match.path);
+    return match.path;
+  }
+
+  // node-imap issues UID MOVE, or falls back to COPY + \Deleted + expunge of just these UIDs
+  private moveUids(uids: number[], mailbox: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.api.move(uids, mailbox, (err) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+
+  private getDraftsBox(): Promise<string> {
+    return this.findSpecialUseBox('\\Drafts', ['Drafts', 'INBOX.Drafts', '[Gmail]/Drafts']);
+  }
+
+  private getArchiveBox(): Promise<string> {
+    return this.findSpecialUseBox('\\Archive', ['Archive', 'Archives', 'INBOX.Archive', '[Gmail]/All Mail']);
+  }
+
+  private getTrashBox(): Promise<string> {
+    return this.findSpecialUseBox('\\Trash', [
+      'Trash',
+      'Deleted Items',
+      'Deleted Messages',
+      'INBOX.Trash',
+      '[Gmail]/Trash',
+    ]);
+  }
+
+  private fetchMessageId(uid: number): Promise<string | undefined> {
+    return new Promise((resolve, reject) => {
+      const fetch = this.api.fetch([uid], { bodies: 'HEADER.FIELDS (MESSAGE-ID)' });
+      let header = '';
+      let found = false;
+
+      fetch.on('message', (msg) => {
+        found = true;
+        msg.on('body', (stream) => {
+          stream.on('data', (chunk: Buffer) => (header += chunk.toString('utf8')));
+        });
+      });
+
+      fetch.once('error', reject);
+      fetch.once('end', () => {
+        if (!found) reject(new NotFoundError(`Email not found: ${uid}`));
+        else resolve(Imap.parseHeader(header)['message-id']?.[0]);
+      });
+    });
+  }
+
+  // UIDs are per mailbox, so after a move the message is found again by its Message-ID
+  private async relocate(mailbox: string, uid: number, to: string): Promise<string | undefined> {
+    await this.openBox(mailbox, false);
+    const messageId = await this.fetchMessageId(uid);
+    await this.moveUids([uid], to);
+    if (!messageId) return undefined;
+
+    await this.openBox(to);
+    const uids = await this.searchMessages([['HEADER', 'MESSAGE-ID', messageId]]);
+    return uids.length ? toMessageId(to, Math.max(...uids)) : undefined;
+  }
+
+  // keepCidLinks leaves cid: references in the HTML instead of inlining images as data: URIs
+  private fetchParsed(uid: number, keepCidLinks = false, imap = this.api): Promise<FetchedMessage> {
     return new Promise((resolve, reject) => {
-      const fetch = this.api.fetch([uid], {
+      const fetch = imap.fetch([uid], {
         bodies: '',
         struct: true,
       });
+      let found = false;
 
       fetch.on('message', (msg) => {
-        let buffer = '';
+        const chunks: Buffer[] = [];
+        let flags: string[] = [];
+        found = true;
 
         msg.on('body', (stream) => {
-          stream.on('data', (chunk: Buffer) => (buffer += chunk.toString('utf8')));
+          stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+        });
+
+        msg.once('attributes', (attrs) => {
+          flags = attrs.flags;
         });
 
         msg.once('end', async () => {
           try {
-            const parsed = await simpleParser(buffer);
-            resolve(this.mapMessage(uid.toString(), parsed));
+            const parsed = await simpleParser(Buffer.concat(chunks), { keepCidLinks });
+            resolve({ parsed, flags });
           } catch (e) {
             reject(e);
           }
@@ -107,141 +447,747 @@ export class IMAPProvider extends EmailProvider {
       });
 
       fetch.once('error', reject);
+      fetch.once('end', () => {
+        if (!found) reject(new NotFoundError(`Email not found: ${uid}`));
+      });
+    });
+  }
+
+  // FLAGS only; with CONDSTORE, just the messages changed since the given modseq
+  private fetchFlags(imap: Imap, mailbox: string, range: string, changedSince?: string): Promise<MessageUpdate[]> {
+    return new Promise((resolve, reject) => {
+      const updates: MessageUpdate[] = [];
+      const fetch = imap.fetch(range, changedSince ? { modifiers: { changedsince: changedSince } } : {});
+
+      fetch.on('message', (msg) => {
+        msg.once('attributes', (attrs) => {
+          updates.push({ id: toMessageId(mailbox, attrs.uid), ...flagState(attrs.flags) });
+        });
+      });
+
+      fetch.once('error', reject);
+      fetch.once('end', () => resolve(updates));
     });
   }
 
-  private mapMessage(id: string, parsed: ParsedMail): Email {
+  // The mailbox must be open on that connection already
+  private async fetchMessage(mailbox: string, uid: number, imap = this.api): Promise<Email> {
+    return this.mapMessage(mailbox, uid, await this.fetchParsed(uid, false, imap));
+  }
+
+  private mapMessage(mailbox: string, uid: number, { parsed, flags }: FetchedMessage): Email {
+    const references = typeof parsed.references === 'string' ? [parsed.references] : parsed.references;
+
     return {
-      id,
+      id: toMessageId(mailbox, uid),
+      folder: mailbox,
+      // The conversation root's Message-ID doubles as the thread ID
+      threadId: references?.[0] || parsed.inReplyTo || parsed.messageId,
       from: parsed.from?.text || '',
-      to: parsed.to ? (Array.isArray(parsed.to) ? parsed.to.map((t) => t.text) : [parsed.to.text]) : [],
-      cc: parsed.cc ? (Array.isArray(parsed.cc) ? parsed.cc.map((c) => c.text) : [parsed.cc.text]) : undefined,
+      to: addressList(parsed.to) || [],
+      cc: addressList(parsed.cc),
       subject: parsed.subject || '',
       snippet: (parsed.text || '').substring(0, 200),
       body: parsed.text || '',
       bodyHtml: parsed.html || undefined,
       date: parsed.date || new Date(),
-      isUnread: true, // IMAP doesn't easily expose this in fetch
+      ...flagState(flags),
+      importance: parseImportance(parsed),
       hasAttachments: (parsed.attachments?.length || 0) > 0,
+      messageId: parsed.messageId,
+      references,
+      replyTo: parsed.replyTo ? [parsed.replyTo.text] : undefined,
     };
   }
 
-  async fetchUnread(maxResults = 10): Promise<Email[]> {
-    await this.openBox('INBOX');
-    const uids = await this.searchMessages(['UNSEEN']);
-    const limitedUids = uids.slice(-maxResults).reverse();
-
-    const emails: Email[] = [];
-    for (const uid of limitedUids) {
-      emails.push(await this.fetchMessage(uid));
-    }
-    return emails;
-  }
-
-  async search(options: SearchOptions): Promise<Email[]> {
-    const { query, maxResults = 10, folder = 'INBOX' } = options;
-    await this.openBox(folder);
-
-    let criteria: any[] = ['ALL'];
-    if (query) {
-      // Simple query parsing
-      if (query.includes('from:')) {
-        const from = query.match(/from:(\S+)/)?.[1];
-        if (from) criteria = [['FROM', from]];
-      } else if (query.includes('subject:')) {
-        const subject = query.match(/subject:(.+)/)?.[1];
-        if (subject) criteria = [['SUBJECT', subject]];
-      } else if (query === 'is:unread' || query === 'UNSEEN') {
-        criteria = ['UNSEEN'];
-      } else {
-        criteria = [['TEXT', query]];
+  // Newest first; the cursor remembers the lowest UID already returned from this mailbox
+  private async fetchPage(box: Imap.Box, uids: number[], maxResults: number, cursor?: string): Promise<SearchResult> {
+    let candidates = [...uids].sort((a, b) => a - b);
+    if (cursor) {
+      const { uidValidity, before } = decodeCursor<IMAPCursor>(cursor);
+      if (uidValidity !== box.uidvalidity) {
+        throw new InvalidRequestError('Cursor expired: the mailbox was reset on the server, start a new search');
       }
+      candidates = candidates.filter((uid) => uid < before);
     }
 
-    const uids = await this.searchMessages(criteria);
-    const limitedUids = uids.slice(-maxResults).reverse();
-
+    const page = candidates.slice(-maxResults).reverse();
     const emails: Email[] = [];
-    for (const uid of limitedUids) {
-      emails.push(await this.fetchMessage(uid));
+    for (const uid of page) {
+      emails.push(await this.fetchMessage(box.name, uid));
     }
-    return emails;
+
+    const hasMore = candidates.length > page.length;
+    return {
+      emails,
+      nextCursor: hasMore ? encodeCursor({ uidValidity: box.uidvalidity, before: page[page.length - 1] }) : undefined,
+    };
+  }
+
+  async fetchUnread(maxResults = 10, cursor?: string): Promise<SearchResult> {
+    return this.scheduler.run(async () => {
+      const box = await this.openBox('INBOX');
+      const uids = await this.searchMessages(['UNSEEN']);
+      return this.fetchPage(box, uids, maxResults, cursor);
+    });
+  }
+
+  async search(options: SearchOptions): Promise<SearchResult> {
+    return this.scheduler.run(async () => {
+      const { query, maxResults = 10 } = options;
+      const parsed = parseQuery(query);
+      const box = await this.openBox(options.folder || parsed.folder || 'INBOX');
+
+      const uids = await this.searchMessages(toImapCriteria(parsed.node));
+      return this.fetchPage(box, uids, maxResults, options.cursor);
+    });
   }
 
   async getMessage(id: string): Promise<Email | null> {
-    await this.openBox('INBOX');
-    return this.fetchMessage(parseInt(id));
+    return this.scheduler.run(async () => {
+      const { mailbox, uid } = parseMessageId(id);
+      await this.openBox(mailbox);
+      return this.fetchMessage(mailbox, uid);
+    });
   }
 
-  async markAsRead(id: string): Promise<void> {
-    await this.openBox('INBOX', false);
-    await new Promise<void>((resolve, reject) => {
-      this.api.addFlags([parseInt(id)], ['\\Seen'], (err) => {
+  // mailparser has no stable attachment ID, so the index within the message is used
+  private mapAttachment(index: number, att: ParsedMail['attachments'][number]): Attachment {
+    return {
+      id: index.toString(),
+      filename: att.filename || `attachment-${index}`,
+      mimeType: att.contentType || 'application/octet-stream',
+      size: att.size,
+      contentId: att.contentId?.replace(/^<|>$/g, ''),
+      isInline: att.contentDisposition === 'inline',
+    };
+  }
+
+  async listAttachments(emailId: string): Promise<Attachment[]> {
+    return this.scheduler.run(async () => {
+      const { mailbox, uid } = parseMessageId(emailId);
+      await this.openBox(mailbox);
+      const { parsed } = await this.fetchParsed(uid);
+      return parsed.attachments.map((att, i) => this.mapAttachment(i, att));
+    });
+  }
+
+  async getAttachment(emailId: string, attachmentId: string): Promise<AttachmentContent> {
+    return this.scheduler.run(async () => {
+      const { mailbox, uid } = parseMessageId(emailId);
+      await this.openBox(mailbox);
+      const { parsed } = await this.fetchParsed(uid);
+      const index = parseInt(attachmentId);
+      const att = parsed.attachments[index];
+      if (!att) throw new NotFoundError(`Attachment not found: ${attachmentId}`);
+
+      return this.toAttachmentContent(this.mapAttachment(index, att), att.content);
+    });
+  }
+
+  private threadMessages(criteria: any[]): Promise<ThreadNode[]> {
+    return new Promise((resolve, reject) => {
+      (this.api as unknown as ThreadCapable).thread('REFERENCES', criteria, (err, threads) => {
         if (err) reject(err);
-        else resolve();
+        else resolve(threads || []);
       });
     });
   }
 
+  // A conversation spans mailboxes (our replies sit in Sent), so every selectable mailbox is
+  // searched; a message filed in several (Gmail's All Mail) is listed once, from INBOX if there
+  async getThread(threadId: string): Promise<Email[]> {
+    return this.scheduler.run(async () => {
+      const emails: Email[] = [];
+      const seen = new Set<string>();
+      for (const mailbox of await this.threadMailboxes()) {
+        for (const uid of await this.threadUids(mailbox, threadId)) {
+          const email = await this.fetchMessage(mailbox, uid);
+          const key = email.messageId || email.id;
+          if (seen.has(key)) continue;
+          seen.add(key);
+          emails.push(email);
+        }
+      }
+      if (emails.length === 0) throw new NotFoundError(`Thread not found: ${threadId}`);
+      return emails.sort((a, b) => a.date.getTime() - b.date.getTime());
+    });
+  }
+
+  // Mailboxes that hold messages, INBOX first and catch-all \All mailboxes last
+  private async threadMailboxes(): Promise<string[]> {
+    const has = (box: { attribs: string[] }, attribute: RegExp) => box.attribs.some((a) => attribute.test(a));
+    const rank = (box: { path: string; attribs: string[] }) =>
+      box.path.toUpperCase() === 'INBOX' ? 0 : has(box, /^\\?all$/i) ? 2 : 1;
+    return (await this.listBoxes())
+      .filter((box) => !has(box, /^\\?(noselect|nonexistent)$/i))
+      .sort((a, b) => rank(a) - rank(b))
+      .map((box) => box.path);
+  }
+
+  // UIDs of one mailbox's messages in the conversation
+  private async threadUids(mailbox: string, threadId: string): Promise<number[]> {
+    await this.openBox(mailbox);
+
+    // Every message in the conversation carries the root ID in Message-ID, References or In-Reply-To
+    const uids = new Set(
+      await this.searchMessages([
+        [
+          'OR',
+          ['HEADER', 'MESSAGE-ID', threadId],
+          ['OR', ['HEADER', 'REFERENCES', threadId], ['HEADER', 'IN-REPLY-TO', threadId]],
+        ],
+      ])
+    );
+    if (uids.size === 0) return [];
+
+    // THREAD=REFERENCES also catches replies from clients that drop the References header
+    if (this.api.serverSupports('THREAD=REFERENCES')) {
+      const flatten = (node: ThreadNode): number[] => (Array.isArray(node) ? node.flatMap(flatten) : [node]);
+      for (const thread of await this.threadMessages(['ALL'])) {
+        const members = flatten(thread);
+        if (members.some((uid) => uids.has(uid))) {
+          members.forEach((uid) => uids.add(uid));
+        }
+      }
+    }
+    return [...uids];
+  }
+
+  async markAsRead(id: string): Promise<void> {
+    return this.scheduler.run(async () => {
+      const { mailbox, uid } = parseMessageId(id);
+      await this.openBox(mailbox, false);
+      await new Promise<void>((resolve, reject) => {
+        this.api.addFlags([uid], ['\\Seen'], (err) => {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+    }, false);
+  }
+
   async markAsUnread(id: string): Promise<void> {
-    await this.openBox('INBOX', false);
-    await new Promise<void>((resolve, reject) => {
-      this.api.delFlags([parseInt(id)], ['\\Seen'], (err) => {
-        if (err) reject(err);
-        else resolve();
+    return this.scheduler.run(async () => {
+      const { mailbox, uid } = parseMessageId(id);
+      await this.openBox(mailbox, false);
+      await new Promise<void>((resolve, reject) => {
+        this.api.delFlags([uid], ['\\Seen'], (err) => {
+          if (err) reject(err);
+          else resolve();
+        });
       });
-    });
+    }, false);
   }
 
   async sendEmail(options: SendOptions): Promise<string> {
+    return this.scheduler.run(() => this.deliver(options), false);
+  }
+
+  private async deliver(options: SendOptions, headers: Record<string, string> = {}): Promise<string> {
     if (!this.transporter) throw new Error('SMTP not configured');
 
-    const { to, cc, bcc, subject, body, isHtml } = options;
+    const { to, cc, bcc, subject, body, isHtml, replyTo } = options;
+    const attachments = await resolveAttachments(options.attachments);
 
     const info = await this.transporter.sendMail({
       from: this.config.user,
       to: to.join(', '),
       cc: cc?.join(', '),
       bcc: bcc?.join(', '),
+      replyTo,
       subject,
       [isHtml ? 'html' : 'text']: body,
+      attachments: toNodemailerAttachments(attachments),
+      headers,
     });
 
     logger.info(`Sent: ${info.messageId}`);
     return info.messageId;
   }
 
+  async replyEmail(id: string, options: ReplyOptions): Promise<string> {
+    return this.scheduler.run(async () => {
+      const { mailbox, uid } = parseMessageId(id);
+      await this.openBox(mailbox);
+      const original = await this.fetchMessage(mailbox, uid);
+      const recipients = replyRecipients(original, this.config.user, options.replyAll);
+
+      return this.deliver(
+        {
+          to: recipients.to,
+          cc: [...recipients.cc, ...(options.cc || [])],
+          bcc: options.bcc,
+          subject: prefixSubject(original.subject, 'Re'),
+          body: quoteBody(original, options.body, options.isHtml),
+          isHtml: options.isHtml,
+          attachments: options.attachments,
+        },
+        threadingHeaders(original)
+      );
+    }, false);
+  }
+
+  async forwardEmail(id: string, options: ForwardOptions): Promise<string> {
+    return this.scheduler.run(async () => {
+      const { mailbox, uid } = parseMessageId(id);
+      await this.openBox(mailbox);
+      const fetched = await this.fetchParsed(uid, true);
+      const { parsed } = fetched;
+      const original = this.mapMessage(mailbox, uid, fetched);
+
+      const inherited = parsed.attachments.map((att, i) => {
+        const meta = this.mapAttachment(i, att);
+        return {
+          filename: meta.filename,
+          mimeType: meta.mimeType,
+          contentId: meta.contentId,
+          content: att.content.toString('base64'),
+        };
+      });
+
+      return this.deliver({
+        to: options.to,
+        cc: options.cc,
+        bcc: options.bcc,
+        subject: prefixSubject(original.subject, 'Fwd'),
+        body: forwardBody(original, options.body, options.isHtml),
+        isHtml: options.isHtml,
+        attachments: [...inherited, ...(options.attachments || [])],
+      });
+    }, false);
+  }
+
   async getFolders(): Promise<Folder[]> {
-    return new Promise((resolve, reject) => {
-      this.api.getBoxes((err, boxes) => {
-        if (err) reject(err);
-        else {
-          const folders: Folder[] = [];
-          const traverse = (obj: any, prefix = '') => {
-            for (const [name, box] of Object.entries(obj) as any) {
-              folders.push({ id: prefix + name, name: prefix + name });
-              if (box.children) traverse(box.children, prefix + name + box.delimiter);
-            }
-          };
-          traverse(boxes);
-          resolve(folders);
+    return this.scheduler.run(async () => {
+      const boxes = await this.listBoxes();
+      return boxes.map((b) => ({ id: b.path, name: b.path }));
+    });
+  }
+
+  private async buildDraft(options: DraftOptions): Promise<{ raw: Buffer; messageId: string }> {
+    let headers: Record<string, string> = {};
+    let subject = options.subject;
+
+    if (options.inReplyToId) {
+      const { mailbox, uid } = parseMessageId(options.inReplyToId);
+      await this.openBox(mailbox);
+      const original = await this.fetchMessage(mailbox, uid);
+      headers = threadingHeaders(original);
+      subject = prefixSubject(subject || original.subject, 'Re');
+    }
+
+    const domain = this.config.user.split('@')[1] || this.config.host;
+    const messageId = `<${randomUUID()}@${domain}>`;
+    const raw = await buildMimeMessage({ ...options, subject }, { from: this.config.user, messageId, headers });
+    return { raw, messageId };
+  }
+
+  async createDraft(options: DraftOptions): Promise<string> {
+    return this.scheduler.run(() => this.saveDraft(options), false);
+  }
+
+  // The scheduler runs one IMAP task at a time, so scheduled methods share unscheduled helpers
+  // instead of calling each other
+  private async saveDraft(options: DraftOptions): Promise<string> {
+    const { raw, messageId } = await this.buildDraft(options);
+    const mailbox = await this.getDraftsBox();
+
+    const uid = await this.appendMessage(mailbox, raw, ['\\Draft', '\\Seen']);
+    if (uid) return toMessageId(mailbox, uid);
+
+    // Without UIDPLUS, look the draft up by the Message-ID we assigned
+    await this.openBox(mailbox);
+    const uids = await this.searchMessages([['HEADER', 'MESSAGE-ID', messageId]]);
+    if (uids.length === 0) throw new Error('Draft was saved but could not be located');
+    return toMessageId(mailbox, uids[uids.length - 1]);
+  }
+
+  // IMAP messages are immutable: store the new version, then drop the old one
+  async updateDraft(draftId: string, options: DraftOptions): Promise<string> {
+    return this.scheduler.run(async () => {
+      const newId = await this.saveDraft(options);
+      await this.expungeDraft(draftId);
+      return newId;
+    }, false);
+  }
+
+  async listDrafts(maxResults = 10): Promise<Draft[]> {
+    return this.scheduler.run(async () => {
+      const mailbox = await this.getDraftsBox();
+      await this.openBox(mailbox);
+      const uids = await this.searchMessages(['ALL']);
+
+      const drafts: Draft[] = [];
+      for (const uid of uids.slice(-maxResults).reverse()) {
+        drafts.push({ id: toMessageId(mailbox, uid), message: await this.fetchMessage(mailbox, uid) });
+      }
+      return drafts;
+    });
+  }
+
+  async sendDraft(draftId: string): Promise<string> {
+    return this.scheduler.run(async () => {
+      const { mailbox, uid } = parseMessageId(draftId, await this.getDraftsBox());
+      await this.openBox(mailbox);
+      const fetched = await this.fetchParsed(uid, true);
+      const { parsed } = fetched;
+      const draft = this.mapMessage(mailbox, uid, fetched);
+
+      const headers: Record<string, string> = {};
+      if (parsed.inReplyTo) {
+        headers['In-Reply-To'] = parsed.inReplyTo;
+        headers.References = (draft.references || [parsed.inReplyTo]).join(' ');
+      }
+
+      const id = await this.deliver(
+        {
+          to: draft.to,
+          cc: draft.cc,
+          bcc: addressList(parsed.bcc),
+          replyTo: parsed.replyTo?.text,
+          subject: draft.subject,
+          body: parsed.html || parsed.text || '',
+          isHtml: !!parsed.html,
+          attachments: parsed.attachments.map((att) => ({
+            filename: att.filename,
+            mimeType: att.contentType,
+            contentId: att.contentId?.replace(/^<|>$/g, ''),
+            content: att.content.toString('base64'),
+          })),
+        },
+        headers
+      );
+
+      await this.expungeDraft(draftId);
+      return id;
+    }, false);
+  }
+
+  async deleteDraft(draftId: string): Promise<void> {
+    return this.scheduler.run(() => this.expungeDraft(draftId), false);
+  }
+
+  private async expungeDraft(draftId: string): Promise<void> {
+    const { mailbox, uid } = parseMessageId(draftId, await this.getDraftsBox());
+    await this.openBox(mailbox, false);
+    await this.expungeUids([uid]);
+  }
+
+  // Returns the message's ID in Trash, which restoreEmail takes
+  async deleteEmail(id: string, permanent = false): Promise<string | undefined> {
+    return this.scheduler.run(async () => {
+      const { mailbox, uid } = parseMessageId(id);
+      if (!permanent) return this.relocate(mailbox, uid, await this.getTrashBox());
+
+      await this.openBox(mailbox, false);
+      await this.expungeUids([uid]);
+      return undefined;
+    }, false);
+  }
+
+  // IDs here are messages in Trash (as returned by deleteEmail or an in:Trash search)
+  async restoreEmail(id: string, folderId = 'INBOX'): Promise<string | undefined> {
+    return this.scheduler.run(async () => {
+      const { mailbox, uid } = parseMessageId(id, await this.getTrashBox());
+      return this.relocate(mailbox, uid, folderId);
+    }, false);
+  }
+
+  // BEFORE compares the internal (arrival) date, at day granularity
+  async emptyTrash(olderThanDays: number): Promise<number> {
+    return this.scheduler.run(async () => {
+      await this.openBox(await this.getTrashBox(), false);
+      const cutoff = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000);
+      const uids = await this.searchMessages(olderThanDays > 0 ? [['BEFORE', cutoff]] : ['ALL']);
+      if (uids.length) await this.expungeUids(uids);
+      return uids.length;
+    }, false);
+  }
+
+  async moveEmail(id: string, folderId: string): Promise<void> {
+    return this.scheduler.run(async () => {
+      const { mailbox, uid } = parseMessageId(id);
+      await this.openBox(mailbox, false);
+      await this.moveUids([uid], folderId);
+    }, false);
+  }
+
+  async archiveEmail(id: string): Promise<void> {
+    return this.scheduler.run(async () => {
+      const { mailbox, uid } = parseMessageId(id);
+      const archive = await this.getArchiveBox();
+      await this.openBox(mailbox, false);
+      await this.moveUids([uid], archive);
+    }, false);
+  }
+
+  // One UID set per mailbox and command (STORE / MOVE). UIDs missing from their mailbox are
+  // reported as not found; the rest of a mailbox succeed or fail together. New IDs after a
+  // move are not looked up.
+  async bulkAction(ids: string[], action: BulkAction): Promise<BulkItemResult[]> {
+    return this.scheduler.run(async () => {
+      if (action.type === 'label') validateKeywords(action.labels!);
+      let destination: string | undefined;
+      if (action.type === 'move') destination = action.folderId!;
+      if (action.type === 'delete') destination = await this.getTrashBox();
+      if (action.type === 'archive') destination = await this.getArchiveBox();
+
+      const targets = new Map<string, { mailbox: string; uid: number } | null>();
+      for (const id of ids) {
+        try {
+          targets.set(id, parseMessageId(id));
+        } catch {
+          targets.set(id, null);
+        }
+      }
+
+      const outcomes = new Map<string, { existing: Set<number>; error?: unknown }>();
+      for (const target of targets.values()) {
+        if (!target || outcomes.has(target.mailbox)) continue;
+        const { mailbox } = target;
+        const requested = [...targets.values()].flatMap((t) => (t?.mailbox === mailbox ? [t.uid] : []));
+        // A mailbox that cannot be opened fails its own items only
+        const outcome = await this.bulkInMailbox(mailbox, requested, action, destination).catch((error) => ({
+          existing: new Set(requested),
+          error,
+        }));
+        outcomes.set(mailbox, outcome);
+      }
+
+      return ids.map((id) => {
+        const target = targets.get(id);
+        const outcome = target && outcomes.get(target.mailbox);
+        if (!target || !outcome?.existing.has(target.uid)) {
+          return { id, success: false, error: `Email not found: ${id}`, errorCode: 'NOT_FOUND' };
         }
+        if (outcome.error) {
+          const error = outcome.error instanceof Error ? outcome.error.message : 'Unknown';
+          return { id, success: false, error, errorCode: errorCode(outcome.error) };
+        }
+        return { id, success: true };
       });
-    });
+    }, false);
   }
 
-  async deleteEmail(id: string): Promise<void> {
-    await this.openBox('INBOX', false);
-    await new Promise<void>((resolve, reject) => {
-      this.api.addFlags([parseInt(id)], ['\\Deleted'], (err) => {
-        if (err) reject(err);
-        else {
-          this.api.expunge((expErr) => {
-            if (expErr) reject(expErr);
-            else resolve();
-          });
+  // Runs a bulk action on the requested UIDs that still exist in one mailbox
+  private async bulkInMailbox(
+    mailbox: string,
+    requested: number[],
+    action: BulkAction,
+    destination?: string
+  ): Promise<{ existing: Set<number>; error?: unknown }> {
+    await this.openBox(mailbox, false);
+    const existing = new Set(await this.searchMessages([['UID', requested.join(',')]]));
+    const uids = requested.filter((uid) => existing.has(uid));
+    if (!uids.length) return { existing };
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const done = (err: Error) => (err ? reject(err) : resolve());
+        if (action.type === 'read') this.api.addFlags(uids, ['\\Seen'], done);
+        else if (action.type === 'unread') this.api.delFlags(uids, ['\\Seen'], done);
+        else if (action.type === 'label') this.api.addKeywords(uids, action.labels!, done);
+        else this.api.move(uids, destination!, done);
+      });
+    } catch (error) {
+      return { existing, error };
+    }
+    return { existing };
+  }
+
+  async setFlag(id: string, options: FlagOptions): Promise<void> {
+    return this.scheduler.run(async () => {
+      const { mailbox, uid } = parseMessageId(id);
+      await this.openBox(mailbox, false);
+      await new Promise<void>((resolve, reject) => {
+        const done = (err: Error) => (err ? reject(err) : resolve());
+        if (options.flagged) this.api.addFlags([uid], ['\\Flagged'], done);
+        else this.api.delFlags([uid], ['\\Flagged'], done);
+      });
+    }, false);
+  }
+
+  async addLabels(id: string, labels: string[]): Promise<void> {
+    return this.scheduler.run(async () => {
+      validateKeywords(labels);
+      const { mailbox, uid } = parseMessageId(id);
+      await this.openBox(mailbox, false);
+      await new Promise<void>((resolve, reject) => {
+        this.api.addKeywords([uid], labels, (err) => {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+    }, false);
+  }
+
+  async removeLabels(id: string, labels: string[]): Promise<void> {
+    return this.scheduler.run(async () => {
+      const { mailbox, uid } = parseMessageId(id);
+      await this.openBox(mailbox, false);
+      await new Promise<void>((resolve, reject) => {
+        this.api.delKeywords([uid], labels, (err) => {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+    }, false);
+  }
+
+  // Keywords come into existence when first used; the mailbox only has to accept new ones
+  async createLabel(name: string): Promise<string> {
+    return this.scheduler.run(async () => {
+      validateKeywords([name]);
+      const box = await this.openBox('INBOX', false);
+      if (!box.permFlags.includes('\\*') && !box.flags.includes(name)) {
+        throw new UnsupportedError('This server does not allow custom keywords in INBOX');
+      }
+      return name;
+    }, false);
+  }
+
+  async deleteLabel(name: string): Promise<void> {
+    return this.scheduler.run(async () => {
+      await this.openBox('INBOX', false);
+      const uids = await this.searchMessages([['KEYWORD', name]]);
+      if (uids.length === 0) return;
+
+      await new Promise<void>((resolve, reject) => {
+        this.api.delKeywords(uids, [name], (err) => {
+          if (err) reject(err);
+          else resolve();
+        });
+      });
+    }, false);
+  }
+
+  // IDLE ties up a connection, so each watched folder gets its own; node-imap idles
+  // whenever that connection has nothing queued and emits "mail" on new arrivals
+  async watch(folder: string, onMail: (emails: Email[]) => void): Promise<() => Promise<void>> {
+    let imap: Imap;
+    let mailbox = folder;
+    let lastUid = 0;
+    let opened = false;
+    let stopped = false;
+
+    const check = async () => {
+      // "n:*" always matches the highest UID, even when that is below n
+      const uids = (await this.searchMessages([['UID', `${lastUid + 1}:*`]], imap))
+        .filter((uid) => uid > lastUid)
+        .sort((a, b) => a - b);
+      if (!uids.length) return;
+      lastUid = uids[uids.length - 1];
+
+      const emails: Email[] = [];
+      for (const uid of uids) {
+        try {
+          emails.push(await this.fetchMessage(mailbox, uid, imap));
+        } catch (error) {
+          if (!(error instanceof NotFoundError)) throw error;
         }
+      }
+      if (emails.length) onMail(emails);
+    };
+
+    // Serialize checks so a burst of arrivals is not fetched twice
+    let checking = Promise.resolve();
+    const queueCheck = () => {
+      checking = checking.then(check).catch((error) => logger.error(`Watch check failed for ${folder}:`, error));
+    };
+
+    const open = async () => {
+      const next = await this.openConnection();
+      let box: Imap.Box;
+      try {
+        box = await this.openBox(folder, true, next);
+      } catch (error) {
+        next.end();
+        throw error;
+      }
+      if (stopped) {
+        next.end();
+        return;
+      }
+
+      imap = next;
+      mailbox = box.name;
+      if (!opened) lastUid = box.uidnext - 1;
+      opened = true;
+      next.on('mail', queueCheck);
+      next.once('close', () => {
+        if (stopped || imap !== next) return;
+        logger.error(`Watch connection for ${folder} lost; reconnecting`);
+        // Mail that arrived while disconnected is picked up by the first check
+        this.reconnect(
+          `watch on ${folder}`,
+          async () => {
+            await open();
+            queueCheck();
+          },
+          () => stopped || this.closing,
+          false
+        );
       });
-    });
+    };
+    await open();
+
+    return async () => {
+      stopped = true;
+      imap.end();
+    };
+  }
+
+  // Only INBOX is synced, which is also where unqualified searches run
+  isSyncedFolder(folder?: string): boolean {
+    return !folder || folder.toUpperCase() === 'INBOX';
+  }
+
+  async syncChanges(state: string | undefined, batchSize: number): Promise<SyncChanges> {
+    const imap = await this.getSyncConnection();
+    const box = await this.openBox('INBOX', true, imap);
+    const highestModseq = (box as Imap.Box & { highestmodseq?: string }).highestmodseq;
+
+    let current: IMAPSyncState | undefined = state ? JSON.parse(state) : undefined;
+    // A new UIDVALIDITY means every UID we hold is meaningless; a state without a mailbox
+    // was built with bare UIDs as IDs, so those messages are fetched again
+    const reset = !!current && (current.uidValidity !== box.uidvalidity || current.mailbox !== box.name);
+    if (!current || reset) current = { mailbox: box.name, uidValidity: box.uidvalidity, lastUid: 0 };
+
+    const uids = (await this.searchMessages(['ALL'], imap)).sort((a, b) => a - b);
+    const pending = uids.filter((uid) => uid > current.lastUid);
+    const batch = pending.slice(0, batchSize);
+
+    const upserted: Email[] = [];
+    for (const uid of batch) {
+      try {
+        upserted.push(await this.fetchMessage(box.name, uid, imap));
+      } catch (error) {
+        // Expunged between SEARCH and FETCH
+        if (!(error instanceof NotFoundError)) throw error;
+      }
+    }
+
+    // Flag changes on messages synced earlier; without CONDSTORE, re-read every flag
+    const changedSince = imap.serverSupports('CONDSTORE') ? current.modseq : undefined;
+    const updated =
+      current.lastUid > 0 ? await this.fetchFlags(imap, box.name, `1:${current.lastUid}`, changedSince) : [];
+
+    const next: IMAPSyncState = {
+      mailbox: box.name,
+      uidValidity: box.uidvalidity,
+      lastUid: batch.length ? batch[batch.length - 1] : current.lastUid,
+      modseq: highestModseq,
+    };
+    return {
+      upserted,
+      updated,
+      deleted: [],
+      // Expunged messages simply stop showing up in SEARCH ALL
+      retained: uids.map((uid) => toMessageId(box.name, uid)),
+      state: JSON.stringify(next),
+      hasMore: pending.length > batch.length,
+      reset,
+    };
   }
 }
@@ -0,0 +1,109 @@
+import fs from 'fs/promises';
+import path from 'path';
+import MailComposer from 'nodemailer/lib/mail-composer/index.js';
+import mimeTypes from 'nodemailer/lib/mime-funcs/mime-types.js';
+import type Mail from 'nodemailer/lib/mailer/index.js';
+import { InvalidRequestError, NotFoundError, PolicyDeniedError } from '../errors.js';
+import { OutgoingAttachment, SendOptions } from '../types.js';
+
+export interface ResolvedAttachment {
+  filename: string;
+  mimeType: string;
+  content: Buffer;
+  contentId?: string;
+}
+
+/**
+ * Checks attachment paths before anything reads them: with a directory, paths resolve
+ * inside it and symlinks may not lead out of it; with null, paths are refused. Returns
+ * the attachments with their real paths, so the files read are the ones checked.
+ */
+export async function confineAttachmentPaths(
+  attachments: OutgoingAttachment[],
+  dir: string | null
+): Promise<OutgoingAttachment[]> {
+  const root = dir === null ? null : await fs.realpath(dir);
+  return Promise.all(
+    attachments.map(async (att, i) => {
+      if (!att.path) return att;
+      if (root === null) throw new PolicyDeniedError(`attachment ${i} has a path; send its content instead`);
+
+      // Checked before touching the file system, so files outside do not even reveal whether they exist
+      const inside = (p: string) => p === root || p.startsWith(root + path.sep);
+      const requested = path.resolve(root, att.path);
+      if (!inside(requested)) throw new PolicyDeniedError(`attachment ${i} is outside the attachments directory`);
+
+      let real: string;
+      try {
+        real = await fs.realpath(requested);
+      } catch {
+        throw new NotFoundError(`Attachment ${i}: file not found: ${att.path}`);
+      }
+      if (!inside(real)) throw new PolicyDeniedError(`attachment ${i} is outside the attachments directory`);
+      return { ...att, path: real, filename: att.filename || path.basename(att.path) };
+    })
+  );
+}
+
+// Load attachment bytes from disk or base64 and fill in filename/MIME type
+export async function resolveAttachments(attachments: OutgoingAttachment[] = []): Promise<ResolvedAttachment[]> {
+  return Promise.all(
+    attachments.map(async (att, i) => {
+      let content: Buffer;
+      if (att.path) {
+        content = await fs.readFile(att.path);
+      } else if (att.content !== undefined) {
+        content = Buffer.from(att.content, 'base64');
+      } else {
+        throw new InvalidRequestError(`Attachment ${i}: either "path" or "content" is required`);
+      }
+
+      const filename = att.filename || (att.path ? path.basename(att.path) : `attachment-${i}`);
+      return {
+        filename,
+        mimeType: att.mimeType || mimeTypes.detectMimeType(filename),
+        content,
+        contentId: att.contentId,
+      };
+    })
+  );
+}
+
+export function toNodemailerAttachments(attachments: ResolvedAttachment[]): Mail.Attachment[] {
+  return attachments.map((att) => ({
+    filename: att.filename,
+    content: att.content,
+    contentType: att.mimeType,
+    cid: att.contentId,
+  }));
+}
+
+// Build a complete RFC 822 message (multipart/mixed when attachments are present)
+export async function buildMimeMessage(
+  options: SendOptions,
+  extra: { from?: string; messageId?: string; headers?: Record<string, string> } = {}
+): Promise<Buffer> {
+  const { to, cc, bcc, subject, body, isHtml, replyTo } = options;
+  const attachments = await resolveAttachments(options.attachments);
+
+  const node = new MailComposer({
+    from: extra.from,
+    messageId: extra.messageId,
+    to,
+    cc,
+    bcc,
+    replyTo,
+    subject,
+    [isHtml ? 'html' : 'text']: body,
+    headers: extra.headers,
+    attachments: toNodemailerAttachments(attachments),
+  }).compile();
+
+  // Gmail reads recipients from the headers, so Bcc must stay in the raw message
+  node.keepBcc = true;
+  return node.build();
+}
+
+export function toBase64Url(data: Buffer): string {
+  return data.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
@@ -1,24 +1,182 @@
-import { Client } from '@microsoft/microsoft-graph-client';
+import { Client, Context, Middleware, MiddlewareFactory, RetryHandler } from '@microsoft/microsoft-graph-client';
 import fs from 'fs/promises';
 import { EmailProvider } from './base.js';
-import { Email, SearchOptions, SendOptions, Folder, OutlookConfig } from '../types.js';
+import { resolveAttachments, ResolvedAttachment } from './mime.js';
+import { prefixSubject } from './compose.js';
+import { parseQuery, toGraphQuery } from '../query/index.js';
+import { decodeCursor, encodeCursor } from '../cursor.js';
+import {
+  AccountUnavailableError,
+  AuthExpiredError,
+  httpError,
+  InvalidRequestError,
+  MailError,
+  NotFoundError,
+} from '../errors.js';
+import { RequestScheduler } from './scheduler.js';
+import {
+  Email,
+  SearchOptions,
+  SearchResult,
+  SendOptions,
+  Folder,
+  OutlookConfig,
+  Attachment,
+  AttachmentContent,
+  ReplyOptions,
+  ForwardOptions,
+  DraftOptions,
+  Draft,
+  FlagOptions,
+  SyncChanges,
+  BulkAction,
+  BulkItemResult,
+} from '../types.js';
 
 const logger = {
   info: (...args: unknown[]) => console.error('[Outlook]', ...args),
   error: (...args: unknown[]) => console.error('[Outlook ERROR]', ...args),
 };
 
+const MESSAGE_FIELDS = [
+  'id',
+  'subject',
+  'from',
+  'toRecipients',
+  'ccRecipients',
+  'replyTo',
+  'bodyPreview',
+  'body',
+  'receivedDateTime',
+  'isRead',
+  'hasAttachments',
+  'internetMessageId',
+  'conversationId',
+  'categories',
+  'flag',
+  'importance',
+  'parentFolderId',
+].join(',');
+
+const WELL_KNOWN_FOLDERS = ['inbox', 'archive', 'drafts', 'sentitems', 'deleteditems', 'junkemail', 'outbox'];
+
+// Graph JSON batching limit
+const BATCH_SIZE = 20;
+
+interface BatchRequest {
+  method: 'GET' | 'PATCH' | 'POST';
+  url: string;
+  body?: unknown;
+}
+
+interface BatchResponse {
+  status: number;
+  body?: any;
+}
+
+const LOCAL_FILTER_OVERFETCH = 5;
+// Stop scanning after this many Graph pages when local filtering finds few matches
+const MAX_PAGES_PER_SEARCH = 10;
+
+// How far behind the newest arrival a watch still remembers messages, to allow for late delivery
+const WATCH_SEEN_WINDOW_MS = 60 * 60 * 1000;
+
+interface OutlookCursor {
+  link?: string;
+  skip: number;
+}
+
+interface OutlookSyncState {
+  // @odata.nextLink while paging through changes, @odata.deltaLink once caught up
+  link: string;
+}
+
 interface OutlookToken {
   access_token: string;
   refresh_token: string;
   expires_at: number;
+  scope?: string;
+  // Issued by a device code sign-in, which refreshes without the client secret
+  public_client?: boolean;
+}
+
+// Refresh this long before the access token expires, so no request goes out with a stale one
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// First in the Graph middleware chain: a 401 refreshes the token and replays the request once,
+// and every outcome is reported so the provider can track its health
+class TokenRefreshHandler implements Middleware {
+  private next: Middleware | undefined;
+
+  constructor(
+    private refresh: () => Promise<void>,
+    private report: (error?: unknown) => void
+  ) {}
+
+  async execute(context: Context): Promise<void> {
+    try {
+      await this.next!.execute(context);
+      if (context.response?.status === 401) {
+        logger.info('Access token rejected; refreshing and retrying');
+        await this.refresh();
+        // The authentication handler appends its header, so drop the rejected token first
+        const headers = context.options?.headers;
+        if (headers instanceof Headers) headers.delete('Authorization');
+        else if (headers && !Array.isArray(headers)) delete (headers as Record<string, string>).Authorization;
+        await this.next!.execute(context);
+      }
+      this.report(
+        context.response?.status === 401 ? new AuthExpiredError('Access token rejected after refresh') : undefined
+      );
+    } catch (error) {
+      this.report(error);
+      throw error;
+    }
+  }
+
+  setNext(next: Middleware): void {
+    this.next = next;
+  }
+}
+
+// Runs every Graph request through the account's scheduler, in place of the client's RetryHandler
+class ScheduledRequestHandler implements Middleware {
+  private next: Middleware | undefined;
+
+  constructor(private scheduler: () => RequestScheduler) {}
+
+  async execute(context: Context): Promise<void> {
+    // Safe to repeat after a network error or 5xx; sends and moves are not
+    const method = (context.options?.method || 'GET').toUpperCase();
+    try {
+      await this.scheduler().run(
+        async () => {
+          await this.next!.execute(context);
+          const { status, headers } = context.response!;
+          const error = httpError(status, headers.get('retry-after'));
+          if (error?.code === 'RATE_LIMITED' || error?.code === 'TRANSIENT') throw error;
+        },
+        ['GET', 'PUT', 'DELETE'].includes(method)
+      );
+    } catch (error) {
+      // Out of retries: leave the last response for the client to raise as usual
+      if (context.response && error instanceof MailError) return;
+      throw error;
+    }
+  }
+
+  setNext(next: Middleware): void {
+    this.next = next;
+  }
 }
 
 export class OutlookProvider extends EmailProvider {
   readonly name = 'outlook';
+  readonly supportsSync = true;
   private client: Client | null = null;
   private config: OutlookConfig;
   private token: OutlookToken | null = null;
+  private refreshing: Promise<void> | null = null;
 
   constructor(config: OutlookConfig) {
     super();
@@ -30,28 +188,67 @@ export class OutlookProvider extends EmailProvider {
     this.token = JSON.parse(tokenContent);
 
     // Check if token needs refresh
-    if (Date.now() >= this.token!.expires_at) {
+    await this.accessToken();
+
+    // The auth provider runs before every request, so tokens refresh while the server runs
+    this.client = Client.initWithMiddleware({
+      middleware: [
+        new TokenRefreshHandler(
+          () => this.refreshToken(),
+          (error) => this.reportRequest(error)
+        ),
+        ...this.defaultMiddleware(),
+      ],
+    });
+
+    this.setHealth('connected');
+    logger.info('Connected to Outlook');
+  }
+
+  // The default chain (authentication first), with our scheduler in place of its retry handler
+  private defaultMiddleware(): Middleware[] {
+    return MiddlewareFactory.getDefaultMiddlewareChain({ getAccessToken: () => this.accessToken() }).map(
+      (middleware) =>
+        middleware instanceof RetryHandler ? new ScheduledRequestHandler(() => this.scheduler) : middleware
+    );
+  }
+
+  private async accessToken(): Promise<string> {
+    if (!this.token) throw new AccountUnavailableError('Not connected to Outlook');
+    if (Date.now() >= this.token.expires_at - TOKEN_REFRESH_MARGIN_MS) {
       await this.refreshToken();
     }
+    return this.token.access_token;
+  }
 
-    this.client = Client.init({
-      authProvider: (done) => {
-        done(null, this.token!.access_token);
-      },
+  // Concurrent requests share one refresh
+  private refreshToken(): Promise<void> {
+    this.refreshing ??= this.requestToken().finally(() => {
+      this.refreshing = null;
     });
+    return this.refreshing;
+  }
 
-    logger.info('Connected to Outlook');
+  private reportRequest(error?: unknown): void {
+    if (!error) {
+      this.setHealth('connected');
+    } else if (error instanceof AuthExpiredError) {
+      this.setHealth('auth-expired', error.message);
+    } else if (!(error as { statusCode?: number }).statusCode) {
+      // No HTTP status: the request never got an answer (network, DNS, timeout)
+      this.setHealth('degraded', error instanceof Error ? error.message : 'Unknown');
+    }
   }
 
-  private async refreshToken(): Promise<void> {
+  private async requestToken(): Promise<void> {
     if (!this.token) throw new Error('No token to refresh');
 
     const params = new URLSearchParams({
       client_id: this.config.clientId,
-      client_secret: this.config.clientSecret,
       refresh_token: this.token.refresh_token,
       grant_type: 'refresh_token',
     });
+    if (!this.token.public_client) params.set('client_secret', this.config.clientSecret);
 
     const response = await fetch(
       `https://login.microsoftonline.com/${this.config.tenantId}/oauth2/v2.0/token`,
@@ -63,51 +260,105 @@ export class OutlookProvider extends EmailProvider {
     );
 
     const data = await response.json();
+    if (!response.ok || !data.access_token) {
+      const reason = data.error_description || data.error || `HTTP ${response.status}`;
+      // invalid_grant: the refresh token was revoked or expired
+      if (data.error === 'invalid_grant' || data.error === 'invalid_client' || data.error === 'unauthorized_client') {
+        const error = new AuthExpiredError(`Outlook sign-in expired; run mail-agent auth for this account (${reason})`);
+        this.setHealth('auth-expired', error.message);
+        throw error;
+      }
+      throw new Error(`Outlook token refresh failed: ${reason}`);
+    }
 
     this.token = {
+      ...this.token,
       access_token: data.access_token,
       refresh_token: data.refresh_token || this.token.refresh_token,
       expires_at: Date.now() + data.expires_in * 1000,
+      scope: data.scope || this.token.scope,
     };
 
     await fs.writeFile(this.config.tokenPath, JSON.stringify(this.token, null, 2));
+    this.setHealth('connected');
     logger.info('Token refreshed');
   }
 
   async disconnect(): Promise<void> {
     this.client = null;
+    this.setHealth('disconnected');
   }
 
   private get api(): Client {
-    if (!this.client) throw new Error('Not connected to Outlook');
+    if (!this.client) throw new AccountUnavailableError('Not connected to Outlook');
     return this.client;
   }
 
-  async fetchUnread(maxResults = 10): Promise<Email[]> {
-    return this.search({ query: 'isRead eq false', maxResults });
+  async fetchUnread(maxResults = 10, cursor?: string): Promise<SearchResult> {
+    return this.search({ query: 'is:unread', maxResults, cursor });
   }
 
-  async search(options: SearchOptions): Promise<Email[]> {
-    const { query, maxResults = 10, folder = 'inbox' } = options;
+  async search(options: SearchOptions): Promise<SearchResult> {
+    const { query, maxResults = 10 } = options;
     logger.info(`Searching: "${query || 'all'}"`);
 
-    let request = this.api
-      .api(`/me/mailFolders/${folder}/messages`)
-      .top(maxResults)
-      .select('id,subject,from,toRecipients,ccRecipients,bodyPreview,body,receivedDateTime,isRead,hasAttachments');
+    const parsed = parseQuery(query);
+    const folder = await this.resolveFolderId(options.folder || parsed.folder || 'inbox');
+    const { filter, search, predicate } = toGraphQuery(parsed.node);
+
+    // Terms checked locally thin out the page, so ask Graph for more up front
+    const firstPage = () => {
+      let request = this.api
+        .api(`/me/mailFolders/${folder}/messages`)
+        .top(predicate ? Math.min(maxResults * LOCAL_FILTER_OVERFETCH, 250) : maxResults)
+        .select(MESSAGE_FIELDS);
+      if (filter) request = request.filter(filter);
+      if (search) request = request.search(`"${search.replace(/"/g, '\\"')}"`);
+      return request.get();
+    };
+
+    // A cursor is a Graph page (nextLink, or the first page when absent) plus how many
+    // matches of that page were already returned
+    let { link, skip } = options.cursor ? decodeCursor<OutlookCursor>(options.cursor) : { link: undefined, skip: 0 };
+    const emails: Email[] = [];
+
+    for (let page = 0; page < MAX_PAGES_PER_SEARCH; page++) {
+      const response = link ? await this.api.api(link).get() : await firstPage();
+      const mapped: Email[] = response.value.map((msg: any) => this.mapMessage(msg));
+      const matches = (predicate ? mapped.filter(predicate) : mapped).slice(skip);
+      const taken = matches.slice(0, maxResults - emails.length);
+      emails.push(...taken);
+
+      if (taken.length < matches.length) {
+        return { emails, nextCursor: encodeCursor({ link, skip: skip + taken.length }) };
+      }
+
+      const nextLink: string | undefined = response['@odata.nextLink'];
+      if (!nextLink) return { emails };
+      link = nextLink;
+      skip = 0;
 
-    if (query) {
-      request = request.filter(query);
+      if (emails.length >= maxResults) break;
     }
 
-    const response = await request.get();
+    return { emails, nextCursor: encodeCursor({ link, skip: 0 }) };
+  }
+
+  // mailFolders/{id} takes IDs and well-known names; map display names such as "Projects" to IDs
+  private async resolveFolderId(folder: string): Promise<string> {
+    // Folder IDs are long opaque strings; short values are names
+    if (WELL_KNOWN_FOLDERS.includes(folder.toLowerCase()) || folder.length > 60) {
+      return folder;
+    }
 
-    return response.value.map((msg: any) => this.mapMessage(msg));
+    const folders = await this.getFolders();
+    return folders.find((f) => f.name.toLowerCase() === folder.toLowerCase())?.id || folder;
   }
 
   private mapMessage(msg: any): Email {
     return {
       id: msg.id,
+      threadId: msg.conversationId,
       from: msg.from?.emailAddress?.address || '',
       to: msg.toRecipients?.map((r: any) => r.emailAddress?.address) || [],
       cc: msg.ccRecipients?.map((r: any) => r.emailAddress?.address),
@@ -117,19 +368,75 @@ export class OutlookProvider extends EmailProvider {
       bodyHtml: msg.body?.contentType === 'html' ? msg.body.content : '',
       date: new Date(msg.receivedDateTime),
       isUnread: !msg.isRead,
+      isFlagged: msg.flag?.flagStatus === 'flagged',
+      importance: msg.importance,
+      labels: msg.categories || [],
+      folder: msg.parentFolderId,
       hasAttachments: msg.hasAttachments || false,
+      messageId: msg.internetMessageId || undefined,
+      replyTo: msg.replyTo?.length ? msg.replyTo.map((r: any) => r.emailAddress?.address) : undefined,
     };
   }
 
   async getMessage(id: string): Promise<Email | null> {
     const msg = await this.api
       .api(`/me/messages/${id}`)
-      .select('id,subject,from,toRecipients,ccRecipients,bodyPreview,body,receivedDateTime,isRead,hasAttachments')
+      .select(MESSAGE_FIELDS)
       .get();
 
     return this.mapMessage(msg);
   }
 
+  private mapAttachment(att: any): Attachment {
+    return {
+      id: att.id,
+      filename: att.name || '',
+      mimeType: att.contentType || 'application/octet-stream',
+      size: att.size || 0,
+      contentId: att.contentId || undefined,
+      isInline: att.isInline || false,
+    };
+  }
+
+  async listAttachments(emailId: string): Promise<Attachment[]> {
+    const response = await this.api
+      .api(`/me/messages/${emailId}/attachments`)
+      // contentId only exists on fileAttachment, so it has to be selected through the cast
+      .select('id,name,contentType,size,isInline,microsoft.graph.fileAttachment/contentId')
+      .get();
+
+    return response.value.map((att: any) => this.mapAttachment(att));
+  }
+
+  async getAttachment(emailId: string, attachmentId: string): Promise<AttachmentContent> {
+    const att = await this.api.api(`/me/messages/${emailId}/attachments/${attachmentId}`).get();
+
+    // Only fileAttachment carries contentBytes; item/reference attachments have no payload
+    if (!att.contentBytes) {
+      throw new InvalidRequestError(`Attachment ${attachmentId} has no downloadable content (${att['@odata.type']})`);
+    }
+
+    return this.toAttachmentContent(this.mapAttachment(att), Buffer.from(att.contentBytes, 'base64'));
+  }
+
+  async getThread(threadId: string): Promise<Email[]> {
+    // $orderby together with a conversationId filter is rejected as inefficient, so sort locally
+    let response = await this.api
+      .api('/me/messages')
+      .filter(`conversationId eq '${threadId.replace(/'/g, "''")}'`)
+      .select(MESSAGE_FIELDS)
+      .top(100)
+      .get();
+    const emails: Email[] = response.value.map((msg: any) => this.mapMessage(msg));
+    // Long conversations span several pages
+    while (response['@odata.nextLink']) {
+      response = await this.api.api(response['@odata.nextLink']).get();
+      emails.push(...response.value.map((msg: any) => this.mapMessage(msg)));
+    }
+
+    return emails.sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
   async markAsRead(id: string): Promise<void> {
     await this.api.api(`/me/messages/${id}`).patch({ isRead: true });
   }
@@ -139,24 +446,146 @@ export class OutlookProvider extends EmailProvider {
   }
 
   async sendEmail(options: SendOptions): Promise<string> {
-    const { to, cc, bcc, subject, body, isHtml } = options;
+    const attachments = await resolveAttachments(options.attachments);
+    const message = { ...this.toMessage(options), attachments: this.toFileAttachments(attachments) };
 
-    const message = {
+    await this.api.api('/me/sendMail').post({ message });
+    logger.info('Email sent');
+    return 'sent';
+  }
+
+  // Graph message resource for everything in SendOptions except attachments
+  private toMessage(options: SendOptions): Record<string, unknown> {
+    const { to, cc, bcc, subject, body, isHtml, replyTo } = options;
+    return {
       subject,
       body: {
         contentType: isHtml ? 'HTML' : 'Text',
         content: body,
       },
-      toRecipients: to.map((email) => ({ emailAddress: { address: email } })),
-      ccRecipients: cc?.map((email) => ({ emailAddress: { address: email } })),
-      bccRecipients: bcc?.map((email) => ({ emailAddress: { address: email } })),
+      toRecipients: this.toRecipients(to),
+      ccRecipients: this.toRecipients(cc),
+      bccRecipients: this.toRecipients(bcc),
+      replyTo: replyTo ? [{ emailAddress: { address: replyTo } }] : undefined,
     };
+  }
 
-    await this.api.api('/me/sendMail').post({ message });
-    logger.info('Email sent');
+  private toFileAttachments(attachments: ResolvedAttachment[]): object[] {
+    return attachments.map((att) => ({
+      '@odata.type': '#microsoft.graph.fileAttachment',
+      name: att.filename,
+      contentType: att.mimeType,
+      contentBytes: att.content.toString('base64'),
+      contentId: att.contentId,
+      isInline: !!att.contentId,
+    }));
+  }
+
+  private toRecipients(addresses?: string[]): object[] | undefined {
+    return addresses?.map((email) => ({ emailAddress: { address: email } }));
+  }
+
+  // Graph builds recipients, subject, quoting and threading itself for /reply, /replyAll and /forward
+  async replyEmail(id: string, options: ReplyOptions): Promise<string> {
+    const { body, replyAll, bcc } = options;
+    const attachments = await resolveAttachments(options.attachments);
+
+    const message: Record<string, unknown> = {};
+    if (options.cc?.length) {
+      // Setting ccRecipients replaces Graph's computed list, so keep the original Cc on reply-all
+      const original = replyAll ? await this.getMessage(id) : null;
+      message.ccRecipients = this.toRecipients([...(original?.cc || []), ...options.cc]);
+    }
+    if (bcc?.length) message.bccRecipients = this.toRecipients(bcc);
+    if (attachments.length) message.attachments = this.toFileAttachments(attachments);
+
+    await this.api
+      .api(`/me/messages/${id}/${replyAll ? 'replyAll' : 'reply'}`)
+      .post({ comment: body, message: Object.keys(message).length ? message : undefined });
+
+    logger.info(`Replied to ${id}`);
     return 'sent';
   }
 
+  async forwardEmail(id: string, options: ForwardOptions): Promise<string> {
+    const { to, cc, bcc, body = '' } = options;
+    const attachments = await resolveAttachments(options.attachments);
+
+    const message: Record<string, unknown> = {};
+    if (cc?.length) message.ccRecipients = this.toRecipients(cc);
+    if (bcc?.length) message.bccRecipients = this.toRecipients(bcc);
+    if (attachments.length) message.attachments = this.toFileAttachments(attachments);
+
+    await this.api.api(`/me/messages/${id}/forward`).post({
+      comment: body,
+      toRecipients: this.toRecipients(to),
+      message: Object.keys(message).length ? message : undefined,
+    });
+
+    logger.info(`Forwarded ${id}`);
+    return 'sent';
+  }
+
+  async createDraft(options: DraftOptions): Promise<string> {
+    const attachments = this.toFileAttachments(await resolveAttachments(options.attachments));
+
+    if (!options.inReplyToId) {
+      const draft = await this.api.api('/me/messages').post({ ...this.toMessage(options), attachments });
+      logger.info(`Created draft: ${draft.id}`);
+      return draft.id;
+    }
+
+    // createReply sets up conversation and threading headers; then overwrite the content
+    const draft = await this.api.api(`/me/messages/${options.inReplyToId}/createReply`).post({});
+    await this.api
+      .api(`/me/messages/${draft.id}`)
+      .patch(this.toMessage({ ...options, subject: prefixSubject(options.subject || draft.subject, 'Re') }));
+    for (const attachment of attachments) {
+      await this.api.api(`/me/messages/${draft.id}/attachments`).post(attachment);
+    }
+
+    logger.info(`Created reply draft: ${draft.id}`);
+    return draft.id;
+  }
+
+  async updateDraft(draftId: string, options: DraftOptions): Promise<string> {
+    await this.api.api(`/me/messages/${draftId}`).patch(this.toMessage(options));
+
+    // Attachments are replaced only when given
+    if (options.attachments) {
+      const existing = await this.api.api(`/me/messages/${draftId}/attachments`).select('id').get();
+      for (const att of existing.value) {
+        await this.api.api(`/me/messages/${draftId}/attachments/${att.id}`).delete();
+      }
+      for (const attachment of this.toFileAttachments(await resolveAttachments(options.attachments))) {
+        await this.api.api(`/me/messages/${draftId}/attachments`).post(attachment);
+      }
+    }
+
+    return draftId;
+  }
+
+  async listDrafts(maxResults = 10): Promise<Draft[]> {
+    const response = await this.api
+      .api('/me/mailFolders/drafts/messages')
+      .top(maxResults)
+      .select(MESSAGE_FIELDS)
+      .orderby('lastModifiedDateTime desc')
+      .get();
+
+    return response.value.map((msg: any) => ({ id: msg.id, message: this.mapMessage(msg) }));
+  }
+
+  async sendDraft(draftId: string): Promise<string> {
+    await this.api.api(`/me/messages/${draftId}/send`).post({});
+    logger.info(`Sent draft ${draftId}`);
+    return 'sent';
+  }
+
+  async deleteDraft(draftId: string): Promise<void> {
+    await this.api.api(`/me/messages/${draftId}`).delete();
+  }
+
   async getFolders(): Promise<Folder[]> {
     const response = await this.api
       .api('/me/mailFolders')
@@ -170,11 +599,294 @@ export class OutlookProvider extends EmailProvider {
     }));
   }
 
-  async deleteEmail(id: string): Promise<void> {
-    await this.api.api(`/me/messages/${id}`).delete();
+  // Moving returns the message under its new ID in Deleted Items
+  async deleteEmail(id: string, permanent = false): Promise<string | undefined> {
+    if (permanent) {
+      await this.api.api(`/me/messages/${id}/permanentDelete`).post({});
+      return undefined;
+    }
+    const moved = await this.api.api(`/me/messages/${id}/move`).post({ destinationId: 'deleteditems' });
+    return moved.id;
+  }
+
+  async restoreEmail(id: string, folderId = 'inbox'): Promise<string | undefined> {
+    const destinationId = await this.resolveFolderId(folderId);
+    const moved = await this.api.api(`/me/messages/${id}/move`).post({ destinationId });
+    return moved.id;
+  }
+
+  async emptyTrash(olderThanDays: number): Promise<number> {
+    let request = this.api.api('/me/mailFolders/deleteditems/messages').select('id').top(100);
+    if (olderThanDays > 0) {
+      const cutoff = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000);
+      request = request.filter(`receivedDateTime lt ${cutoff.toISOString()}`);
+    }
+
+    // Collect first: deleting while paging would shift the pages
+    const ids: string[] = [];
+    let response = await request.get();
+    ids.push(...response.value.map((m: any) => m.id));
+    while (response['@odata.nextLink']) {
+      response = await this.api.api(response['@odata.nextLink']).get();
+      ids.push(...response.value.map((m: any) => m.id));
+    }
+
+    for (const id of ids) {
+      await this.api.api(`/me/messages/${id}/permanentDelete`).post({});
+    }
+    return ids.length;
   }
 
   async moveEmail(id: string, folderId: string): Promise<void> {
-    await this.api.api(`/me/messages/${id}/move`).post({ destinationId: folderId });
+    const destinationId = await this.resolveFolderId(folderId);
+    await this.api.api(`/me/messages/${id}/move`).post({ destinationId });
+  }
+
+  async archiveEmail(id: string): Promise<void> {
+    await this.moveEmail(id, 'archive');
+  }
+
+  // Graph JSON batching: up to 20 requests per round trip, each answered separately
+  private async batch(requests: BatchRequest[]): Promise<BatchResponse[]> {
+    const responses: BatchResponse[] = [];
+    for (let i = 0; i < requests.length; i += BATCH_SIZE) {
+      const chunk = requests.slice(i, i + BATCH_SIZE).map((r, index) => ({
+        id: String(index),
+        method: r.method,
+        url: r.url,
+        ...(r.body !== undefined && { body: r.body, headers: { 'Content-Type': 'application/json' } }),
+      }));
+      const response = await this.api.api('/$batch').post({ requests: chunk });
+      const byId = new Map<string, BatchResponse>(response.responses.map((r: any) => [r.id, r]));
+      responses.push(...chunk.map((r) => byId.get(r.id) ?? { status: 500 }));
+    }
+    return responses;
+  }
+
+  async bulkAction(ids: string[], action: BulkAction): Promise<BulkItemResult[]> {
+    const moveTo = (destinationId: string): BatchRequest[] =>
+      ids.map((id) => ({ method: 'POST', url: `/me/messages/${id}/move`, body: { destinationId } }));
+    // Response per item; items whose category read failed get that response
+    const outcome = new Map<number, BatchResponse>();
+    let requests: BatchRequest[];
+
+    switch (action.type) {
+      case 'read':
+      case 'unread':
+        requests = ids.map((id) => ({
+          method: 'PATCH',
+          url: `/me/messages/${id}`,
+          body: { isRead: action.type === 'read' },
+        }));
+        break;
+      case 'move':
+        requests = moveTo(await this.resolveFolderId(action.folderId!));
+        break;
+      case 'delete':
+        requests = moveTo('deleteditems');
+        break;
+      case 'archive':
+        requests = moveTo('archive');
+        break;
+      case 'label': {
+        // Categories are replaced as a whole, so read them first (also batched)
+        await this.ensureCategories(action.labels!);
+        const current = await this.batch(
+          ids.map((id) => ({ method: 'GET', url: `/me/messages/${id}?$select=categories` }))
+        );
+        requests = ids.map((id, i) => {
+          const existing: string[] = current[i].body?.categories || [];
+          const categories = [...existing, ...action.labels!.filter((l) => !existing.includes(l))];
+          return { method: 'PATCH', url: `/me/messages/${id}`, body: { categories } };
+        });
+        current.forEach((response, i) => {
+          if (response.status >= 300) outcome.set(i, response);
+        });
+        break;
+      }
+    }
+
+    const pending = ids.map((_, i) => i).filter((i) => !outcome.has(i));
+    const responses = await this.batch(pending.map((i) => requests[i]));
+    pending.forEach((index, n) => outcome.set(index, responses[n]));
+
+    return ids.map((id, i) => {
+      const { status, body } = outcome.get(i)!;
+      if (status < 200 || status >= 300) {
+        return {
+          id,
+          success: false,
+          error: body?.error?.message || `HTTP ${status}`,
+          errorCode: httpError(status, null, body)?.code ?? 'UNKNOWN',
+        };
+      }
+      // Moves answer with the message under its new ID
+      return { id, success: true, newId: requests[i].method === 'POST' ? body?.id : undefined };
+    });
+  }
+
+  async setFlag(id: string, options: FlagOptions): Promise<void> {
+    const flag: Record<string, unknown> = { flagStatus: options.flagged ? 'flagged' : 'notFlagged' };
+
+    // Graph only accepts a due date together with a start date
+    if (options.flagged && options.dueDate) {
+      const due = new Date(options.dueDate);
+      if (isNaN(due.getTime())) throw new InvalidRequestError(`Invalid due date: ${options.dueDate}`);
+      flag.startDateTime = { dateTime: new Date().toISOString(), timeZone: 'UTC' };
+      flag.dueDateTime = { dateTime: due.toISOString(), timeZone: 'UTC' };
+    }
+
+    await this.api.api(`/me/messages/${id}`).patch({ flag });
+  }
+
+  private async getCategories(id: string): Promise<string[]> {
+    const msg = await this.api.api(`/me/messages/${id}`).select('categories').get();
+    return msg.categories || [];
+  }
+
+  private async listMasterCategories(): Promise<{ id: string; displayName: string }[]> {
+    const response = await this.api.api('/me/outlook/masterCategories').get();
+    return response.value;
+  }
+
+  // Register unknown categories in the master list so every client shows them
+  private async ensureCategories(labels: string[]): Promise<void> {
+    const master = await this.listMasterCategories();
+    for (const label of labels) {
+      if (!master.some((c) => c.displayName.toLowerCase() === label.toLowerCase())) {
+        await this.createLabel(label);
+      }
+    }
+  }
+
+  async addLabels(id: string, labels: string[]): Promise<void> {
+    await this.ensureCategories(labels);
+
+    const current = await this.getCategories(id);
+    const categories = [...current, ...labels.filter((l) => !current.includes(l))];
+    await this.api.api(`/me/messages/${id}`).patch({ categories });
+  }
+
+  async removeLabels(id: string, labels: string[]): Promise<void> {
+    const remove = labels.map((l) => l.toLowerCase());
+    const current = await this.getCategories(id);
+    const categories = current.filter((c) => !remove.includes(c.toLowerCase()));
+    await this.api.api(`/me/messages/${id}`).patch({ categories });
+  }
+
+  async createLabel(name: string): Promise<string> {
+    const category = await this.api.api('/me/outlook/masterCategories').post({ displayName: name });
+    logger.info(`Created category: ${name}`);
+    return category.id;
+  }
+
+  // Removes the master category; messages keep the category text, as in Outlook itself
+  async deleteLabel(name: string): Promise<void> {
+    const master = await this.listMasterCategories();
+    const category = master.find((c) => c.id === name || c.displayName.toLowerCase() === name.toLowerCase());
+    if (!category) throw new NotFoundError(`Category not found: ${name}`);
+    await this.api.api(`/me/outlook/masterCategories/${category.id}`).delete();
+  }
+
+  // Polls a delta query limited to mail received after the watch started
+  async watch(folder: string, onMail: (emails: Email[]) => void, pollIntervalMs: number): Promise<() => Promise<void>> {
+    const folderId = await this.resolveFolderId(folder);
+    const since = new Date().toISOString();
+    // Delta rounds also report read/flag changes; only the first sighting of a message is new mail.
+    // Sightings are kept by receivedDateTime and dropped once they fall behind the newest arrival by
+    // WATCH_SEEN_WINDOW_MS; changes to anything older than that are not new mail either.
+    const seen = new Map<string, number>();
+    let newest = Date.parse(since);
+    let link: string | undefined;
+
+    const round = async (): Promise<Email[]> => {
+      const fresh: Email[] = [];
+      let response = link
+        ? await this.api.api(link).get()
+        : await this.api
+            .api(`/me/mailFolders/${folderId}/messages/delta`)
+            .filter(`receivedDateTime ge ${since}`)
+            .select(MESSAGE_FIELDS)
+            .get();
+
+      for (;;) {
+        for (const msg of response.value) {
+          const received = Date.parse(msg.receivedDateTime) || Date.now();
+          if (msg['@removed'] || seen.has(msg.id) || received < newest - WATCH_SEEN_WINDOW_MS) continue;
+          seen.set(msg.id, received);
+          newest = Math.max(newest, received);
+          fresh.push(this.mapMessage(msg));
+        }
+        const nextLink: string | undefined = response['@odata.nextLink'];
+        if (!nextLink) {
+          link = response['@odata.deltaLink'];
+          for (const [id, received] of seen) {
+            if (received < newest - WATCH_SEEN_WINDOW_MS) seen.delete(id);
+          }
+          return fresh;
+        }
+        response = await this.api.api(nextLink).get();
+      }
+    };
+
+    // The first round only establishes the delta link
+    await round();
+
+    let polling = false;
+    const timer = setInterval(async () => {
+      if (polling) return;
+      polling = true;
+      try {
+        const emails = await round();
+        if (emails.length) onMail(emails);
+      } catch (error) {
+        logger.error(`Watch poll failed for ${folder}:`, error);
+      } finally {
+        polling = false;
+      }
+    }, pollIntervalMs);
+    return async () => clearInterval(timer);
+  }
+
+  // Unqualified searches run in the inbox, which is the folder the delta query tracks
+  isSyncedFolder(folder?: string): boolean {
+    return !folder || folder.toLowerCase() === 'inbox';
+  }
+
+  async syncChanges(state: string | undefined, batchSize: number): Promise<SyncChanges> {
+    const current: OutlookSyncState | undefined = state ? JSON.parse(state) : undefined;
+    const request = (link?: string) =>
+      (link ? this.api.api(link) : this.api.api('/me/mailFolders/inbox/messages/delta').select(MESSAGE_FIELDS))
+        .header('Prefer', `odata.maxpagesize=${batchSize}`)
+        .get();
+
+    let response;
+    let reset = false;
+    try {
+      response = await request(current?.link);
+    } catch (error) {
+      // 410 Gone: the delta token expired, start a fresh round
+      if ((error as { statusCode?: number }).statusCode !== 410) throw error;
+      logger.info('Delta token expired, resyncing from scratch');
+      response = await request();
+      reset = true;
+    }
+
+    const upserted: Email[] = [];
+    const deleted: string[] = [];
+    for (const msg of response.value) {
+      if (msg['@removed']) deleted.push(msg.id);
+      else upserted.push(this.mapMessage(msg));
+    }
+
+    const nextLink: string | undefined = response['@odata.nextLink'];
+    return {
+      upserted,
+      updated: [],
+      deleted,
+      state: JSON.stringify({ link: nextLink || response['@odata.deltaLink'] }),
+      hasMore: !!nextLink,
+      reset,
+    };
   }
 }
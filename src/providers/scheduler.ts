@@ -0,0 +1,105 @@
+import { classifyError, RateLimitedError, TransientError } from '../errors.js';
+import { SchedulerLimits } from '../types.js';
+
+const logger = {
+  info: (...args: unknown[]) => console.error('[Scheduler]', ...args),
+  error: (...args: unknown[]) => console.error('[Scheduler ERROR]', ...args),
+};
+
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 60 * 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Paces one account's provider requests: a concurrency limit, a token-bucket rate limit,
+ * and retries with exponential backoff and jitter. A rate-limit response holds back every
+ * request of the account until its Retry-After has passed.
+ */
+export class RequestScheduler {
+  private maxConcurrent: number;
+  private requestsPerSecond: number;
+  private burst: number;
+  private maxRetries: number;
+
+  private active = 0;
+  private waiting: (() => void)[] = [];
+  private tokens: number;
+  private refilledAt = Date.now();
+  private pausedUntil = 0;
+
+  constructor(
+    private label: string,
+    limits: SchedulerLimits = {}
+  ) {
+    this.maxConcurrent = Math.max(1, limits.maxConcurrent ?? 4);
+    this.requestsPerSecond = Math.max(0.1, limits.requestsPerSecond ?? 10);
+    this.burst = Math.max(1, limits.burst ?? this.requestsPerSecond);
+    this.maxRetries = Math.max(0, limits.maxRetries ?? 4);
+    this.tokens = this.burst;
+  }
+
+  /**
+   * Runs task when a slot and a token are free, retrying rate limits and transient
+   * failures (the latter only when the request is safe to repeat). Throws the
+   * classified error once retries run out, or straight away when the provider asks
+   * for a longer wait than MAX_DELAY_MS; the caller sees its retryAfterMs.
+   */
+  async run<T>(task: () => Promise<T>, idempotent = true): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire();
+      let delay: number;
+      try {
+        return await task();
+      } catch (error) {
+        const typed = classifyError(error);
+        const retryable = typed instanceof RateLimitedError || (idempotent && typed instanceof TransientError);
+        if (!retryable || attempt >= this.maxRetries) throw typed;
+        if ((typed.retryAfterMs ?? 0) > MAX_DELAY_MS) throw typed;
+
+        delay = typed.retryAfterMs ?? this.backoff(attempt);
+        if (typed instanceof RateLimitedError) {
+          // The quota is per account, so every request waits
+          this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+        }
+        logger.info(`${this.label}: ${typed.message}; retry ${attempt + 1}/${this.maxRetries} in ${delay}ms`);
+      } finally {
+        this.release();
+      }
+      await sleep(delay);
+    }
+  }
+
+  // Full jitter: anywhere between 0 and the exponential cap
+  private backoff(attempt: number): number {
+    return Math.round(Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt));
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.active < this.maxConcurrent) this.active++;
+    // release() hands its slot straight to the next waiter
+    else await new Promise<void>((resolve) => this.waiting.push(resolve));
+
+    for (;;) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        await sleep(this.pausedUntil - now);
+        continue;
+      }
+
+      this.tokens = Math.min(this.burst, this.tokens + ((now - this.refilledAt) / 1000) * this.requestsPerSecond);
+      this.refilledAt = now;
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil(((1 - this.tokens) / this.requestsPerSecond) * 1000));
+    }
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) next();
+    else this.active--;
+  }
+}
@@ -0,0 +1,51 @@
+import { ParsedQuery, QueryNode } from './parser.js';
+
+function quote(value: string): string {
+  return /[\s(){}"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+}
+
+function compile(node: QueryNode, nested: boolean): string {
+  switch (node.type) {
+    case 'and': {
+      const inner = node.children.map((c) => compile(c, true)).join(' ');
+      return nested ? `(${inner})` : inner;
+    }
+    case 'or':
+      return `(${node.children.map((c) => compile(c, true)).join(' OR ')})`;
+    case 'not':
+      return `-${compile(node.child, true)}`;
+    case 'from':
+    case 'to':
+    case 'cc':
+    case 'subject':
+    case 'label':
+    case 'category':
+      return `${node.type}:${quote(node.value)}`;
+    case 'body':
+    case 'text':
+      // Gmail has no body-only operator; free text matches headers and body
+      return quote(node.value);
+    case 'after':
+    case 'before':
+      // Epoch seconds keep the exact instant instead of Gmail's local-midnight dates
+      return `${node.type}:${Math.floor(node.date.getTime() / 1000)}`;
+    case 'larger':
+    case 'smaller':
+      return `${node.type}:${node.bytes}`;
+    case 'hasAttachment':
+      return 'has:attachment';
+    case 'unread':
+      return 'is:unread';
+    case 'read':
+      return 'is:read';
+    case 'flagged':
+      return 'is:starred';
+  }
+}
+
+export function toGmailQuery({ node, folder }: ParsedQuery): string {
+  const parts: string[] = [];
+  if (folder) parts.push(`in:${quote(folder)}`);
+  if (node) parts.push(compile(node, false));
+  return parts.join(' ');
+}
@@ -0,0 +1,199 @@
+import { InvalidRequestError } from '../errors.js';
+import { Email } from '../types.js';
+import { QueryNode, QueryTerm } from './parser.js';
+
+// Graph cannot combine $search with $filter, and each covers different properties:
+// $filter has isRead/flag/categories, $search (KQL) has from/to/body/size.
+export interface GraphQuery {
+  filter?: string;
+  search?: string;
+  // Terms neither syntax can express alongside the rest, checked after fetching
+  predicate?: (email: Email) => boolean;
+}
+
+function odataString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function kqlValue(value: string): string {
+  return /[\s:()"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+}
+
+function kqlDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function termFilter(term: QueryTerm): string | null {
+  switch (term.type) {
+    case 'subject':
+      return `contains(subject,${odataString(term.value)})`;
+    case 'from':
+      // Only exact addresses can be filtered; partial names need $search
+      return term.value.includes('@') ? `from/emailAddress/address eq ${odataString(term.value)}` : null;
+    case 'label':
+    case 'category':
+      return `categories/any(c:c eq ${odataString(term.value)})`;
+    case 'after':
+      return `receivedDateTime ge ${term.date.toISOString()}`;
+    case 'before':
+      return `receivedDateTime lt ${term.date.toISOString()}`;
+    case 'hasAttachment':
+      return 'hasAttachments eq true';
+    case 'unread':
+      return 'isRead eq false';
+    case 'read':
+      return 'isRead eq true';
+    case 'flagged':
+      return "flag/flagStatus eq 'flagged'";
+    default:
+      return null;
+  }
+}
+
+function termKql(term: QueryTerm): string | null {
+  switch (term.type) {
+    case 'from':
+    case 'to':
+    case 'cc':
+    case 'subject':
+    case 'body':
+      return `${term.type}:${kqlValue(term.value)}`;
+    case 'text':
+      return kqlValue(term.value);
+    case 'after':
+      return `received>=${kqlDate(term.date)}`;
+    case 'before':
+      return `received<${kqlDate(term.date)}`;
+    case 'larger':
+      return `size>${term.bytes}`;
+    case 'smaller':
+      return `size<${term.bytes}`;
+    case 'hasAttachment':
+      return 'hasAttachments:true';
+    default:
+      return null;
+  }
+}
+
+// Compile a whole tree with one leaf compiler, or null if any leaf is unsupported
+function compileWith(
+  node: QueryNode,
+  leaf: (term: QueryTerm) => string | null,
+  ops: { and: string; or: string; not: string }
+): string | null {
+  switch (node.type) {
+    case 'and':
+    case 'or': {
+      const parts = node.children.map((c) => compileWith(c, leaf, ops));
+      if (parts.includes(null)) return null;
+      return `(${parts.join(` ${ops[node.type]} `)})`;
+    }
+    case 'not': {
+      const inner = compileWith(node.child, leaf, ops);
+      return inner === null ? null : `${ops.not} (${inner})`;
+    }
+    default:
+      return leaf(node);
+  }
+}
+
+function toFilter(node: QueryNode): string | null {
+  return compileWith(node, termFilter, { and: 'and', or: 'or', not: 'not' });
+}
+
+function toKql(node: QueryNode): string | null {
+  return compileWith(node, termKql, { and: 'AND', or: 'OR', not: 'NOT' });
+}
+
+function includes(haystack: (string | undefined)[], needle: string): boolean {
+  const lower = needle.toLowerCase();
+  return haystack.some((h) => h?.toLowerCase().includes(lower));
+}
+
+// Size is not part of the mapped Email, so only $search can check it
+function isLocal(node: QueryNode): boolean {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return node.children.every(isLocal);
+    case 'not':
+      return isLocal(node.child);
+    case 'larger':
+    case 'smaller':
+      return false;
+    default:
+      return true;
+  }
+}
+
+// Evaluate a tree against an already fetched email (callers check isLocal first)
+function evaluate(node: QueryNode, email: Email): boolean {
+  switch (node.type) {
+    case 'and':
+      return node.children.every((c) => evaluate(c, email));
+    case 'or':
+      return node.children.some((c) => evaluate(c, email));
+    case 'not':
+      return !evaluate(node.child, email);
+    case 'from':
+      return includes([email.from], node.value);
+    case 'to':
+      return includes(email.to, node.value);
+    case 'cc':
+      return includes(email.cc || [], node.value);
+    case 'subject':
+      return includes([email.subject], node.value);
+    case 'body':
+      return includes([email.body, email.bodyHtml], node.value);
+    case 'text':
+      return includes([email.from, email.subject, email.body, email.bodyHtml, ...email.to], node.value);
+    case 'label':
+    case 'category':
+      return (email.labels || []).some((l) => l.toLowerCase() === node.value.toLowerCase());
+    case 'after':
+      return new Date(email.date) >= node.date;
+    case 'before':
+      return new Date(email.date) < node.date;
+    case 'hasAttachment':
+      return email.hasAttachments;
+    case 'unread':
+      return email.isUnread;
+    case 'read':
+      return !email.isUnread;
+    case 'flagged':
+      return !!email.isFlagged;
+    case 'larger':
+    case 'smaller':
+      return true;
+  }
+}
+
+export function toGraphQuery(node: QueryNode | null): GraphQuery {
+  if (!node) return {};
+
+  const filter = toFilter(node);
+  if (filter) return { filter };
+
+  const search = toKql(node);
+  if (search) return { search };
+
+  // Mixed: send the KQL-capable AND branches to $search and check the rest locally
+  const children = node.type === 'and' ? node.children : [node];
+  const searchable: string[] = [];
+  const local: QueryNode[] = [];
+  for (const child of children) {
+    const kql = toKql(child);
+    if (kql) searchable.push(kql);
+    else local.push(child);
+  }
+
+  const rest: QueryNode = local.length === 1 ? local[0] : { type: 'and', children: local };
+  if (!isLocal(rest)) {
+    throw new InvalidRequestError('Invalid query: this combination of terms cannot be searched on Outlook');
+  }
+
+  return {
+    search: searchable.length ? searchable.join(' AND ') : undefined,
+    predicate: (email) => evaluate(rest, email),
+  };
+}
@@ -0,0 +1,89 @@
+import { InvalidRequestError } from '../errors.js';
+import { QueryNode, QueryTerm } from './parser.js';
+
+// node-imap only negates single criteria ('!' prefix) and ORs exactly two criteria,
+// so the tree is pushed into conjunctive normal form: AND of ORs of (negated) terms.
+type Literal = { term: QueryTerm; negated: boolean };
+type Clause = Literal[];
+
+const MAX_CLAUSES = 64;
+
+function toCnf(node: QueryNode, negated = false): Clause[] {
+  switch (node.type) {
+    case 'not':
+      return toCnf(node.child, !negated);
+    case 'and':
+    case 'or': {
+      // De Morgan: a negated AND is an OR of negations, and vice versa
+      const conjunction = (node.type === 'and') !== negated;
+      const parts = node.children.map((c) => toCnf(c, negated));
+      if (conjunction) return parts.flat();
+
+      // (A1 ∧ A2) ∨ (B1 ∧ B2) = (A1 ∨ B1) ∧ (A1 ∨ B2) ∧ (A2 ∨ B1) ∧ (A2 ∨ B2)
+      let clauses: Clause[] = [[]];
+      for (const part of parts) {
+        clauses = clauses.flatMap((left) => part.map((right) => [...left, ...right]));
+        if (clauses.length > MAX_CLAUSES) {
+          throw new InvalidRequestError('Invalid query: too complex for IMAP search, simplify the OR groups');
+        }
+      }
+      return clauses;
+    }
+    default:
+      return [[{ term: node, negated }]];
+  }
+}
+
+function termCriterion(term: QueryTerm): string | any[] {
+  switch (term.type) {
+    case 'from':
+      return ['FROM', term.value];
+    case 'to':
+      return ['TO', term.value];
+    case 'cc':
+      return ['CC', term.value];
+    case 'subject':
+      return ['SUBJECT', term.value];
+    case 'body':
+      return ['BODY', term.value];
+    case 'text':
+      return ['TEXT', term.value];
+    case 'label':
+    case 'category':
+      return ['KEYWORD', term.value];
+    case 'after':
+      return ['SINCE', term.date];
+    case 'before':
+      return ['BEFORE', term.date];
+    case 'larger':
+      return ['LARGER', term.bytes];
+    case 'smaller':
+      return ['SMALLER', term.bytes];
+    case 'hasAttachment':
+      // IMAP SEARCH cannot see attachments; multipart/mixed is the usual container for them
+      return ['HEADER', 'CONTENT-TYPE', 'multipart/mixed'];
+    case 'unread':
+      return 'UNSEEN';
+    case 'read':
+      return 'SEEN';
+    case 'flagged':
+      return 'FLAGGED';
+  }
+}
+
+function literalCriterion({ term, negated }: Literal): string | any[] {
+  const criterion = termCriterion(term);
+  if (!negated) return criterion;
+  return typeof criterion === 'string' ? `!${criterion}` : [`!${criterion[0]}`, ...criterion.slice(1)];
+}
+
+function clauseCriterion(clause: Clause): string | any[] {
+  const [first, ...rest] = clause.map(literalCriterion);
+  return rest.reduce((acc, next) => ['OR', acc, next], first);
+}
+
+export function toImapCriteria(node: QueryNode | null): any[] {
+  if (!node) return ['ALL'];
+  const clauses = toCnf(node);
+  return clauses.length ? clauses.map(clauseCriterion) : ['ALL'];
+}
@@ -0,0 +1,8 @@
+export { parseQuery } from './parser.js';
+export type { ParsedQuery, QueryNode, QueryTerm } from './parser.js';
+export { toGmailQuery } from './gmail.js';
+export { toGraphQuery } from './graph.js';
+export type { GraphQuery } from './graph.js';
+export { toImapCriteria } from './imap.js';
+export { toSqlQuery } from './sql.js';
+export type { SqlQuery } from './sql.js';
@@ -0,0 +1,261 @@
+/**
+ * Provider-neutral search query language.
+ *
+ * Syntax (Gmail-like):
+ *   from:bob to:alice cc:carol subject:"weekly report" body:invoice   field terms
+ *   budget "exact phrase"                                              free text
+ *   after:2024-01-31 before:2024-03-01 newer_than:7d older_than:1m     date ranges
+ *   has:attachment is:unread is:read is:flagged (is:starred)           state
+ *   in:Archive (folder:) label:needs-reply (category:)                 location / tags
+ *   larger:1M smaller:500K                                             size
+ *   a b, a AND b, a OR b, NOT a, -a, ( ... )                           boolean logic
+ *
+ * NOT binds tighter than AND, AND tighter than OR; juxtaposition means AND.
+ * `in:` selects the mailbox, so it may only appear at the top level of an AND.
+ */
+
+import { InvalidRequestError } from '../errors.js';
+
+export type QueryTerm =
+  | { type: 'from' | 'to' | 'cc' | 'subject' | 'body' | 'text' | 'label' | 'category'; value: string }
+  | { type: 'after' | 'before'; date: Date }
+  | { type: 'larger' | 'smaller'; bytes: number }
+  | { type: 'hasAttachment' | 'unread' | 'read' | 'flagged' };
+
+export type QueryNode =
+  | QueryTerm
+  | { type: 'and' | 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode };
+
+export interface ParsedQuery {
+  node: QueryNode | null;
+  folder?: string;
+}
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'and' | 'or' | 'not' }
+  | { kind: 'word'; value: string; quoted: boolean };
+
+// category: is a label everywhere except Gmail, where it selects an inbox tab (category:social)
+const TEXT_FIELDS: Record<string, 'from' | 'to' | 'cc' | 'subject' | 'body' | 'label' | 'category'> = {
+  from: 'from',
+  to: 'to',
+  cc: 'cc',
+  subject: 'subject',
+  body: 'body',
+  label: 'label',
+  category: 'category',
+};
+
+const SIZE_UNITS: Record<string, number> = { '': 1, K: 1024, M: 1024 ** 2, G: 1024 ** 3 };
+const AGE_UNITS: Record<string, number> = { d: 1, w: 7, m: 30, y: 365 };
+
+function fail(message: string): never {
+  throw new InvalidRequestError(`Invalid query: ${message}`);
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readQuoted = (): string => {
+    const end = input.indexOf('"', i + 1);
+    if (end === -1) fail('unterminated quote');
+    const value = input.slice(i + 1, end);
+    i = end + 1;
+    return value;
+  };
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '(' || ch === ')') {
+      tokens.push({ kind: ch === '(' ? 'lparen' : 'rparen' });
+      i++;
+    } else if (ch === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      tokens.push({ kind: 'not' });
+      i++;
+    } else if (ch === '"') {
+      tokens.push({ kind: 'word', value: readQuoted(), quoted: true });
+    } else {
+      // A bare word, possibly field:value or field:"quoted value"
+      let value = '';
+      let quoted = false;
+      while (i < input.length && !/[\s()]/.test(input[i])) {
+        if (input[i] === '"' && value.endsWith(':')) {
+          value += readQuoted();
+          quoted = true;
+          break;
+        }
+        value += input[i++];
+      }
+
+      if (!quoted && (value === 'AND' || value === 'OR' || value === 'NOT')) {
+        tokens.push({ kind: value.toLowerCase() as 'and' | 'or' | 'not' });
+      } else {
+        tokens.push({ kind: 'word', value, quoted });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+function parseDate(value: string): Date {
+  const date = new Date(value.replace(/\//g, '-'));
+  if (isNaN(date.getTime())) fail(`bad date "${value}" (use YYYY-MM-DD)`);
+  return date;
+}
+
+function parseAge(value: string): Date {
+  const match = value.match(/^(\d+)([dwmy])$/i);
+  if (!match) fail(`bad age "${value}" (use e.g. 7d, 2w, 3m, 1y)`);
+  const days = parseInt(match[1]) * AGE_UNITS[match[2].toLowerCase()];
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+}
+
+function parseSize(value: string): number {
+  const match = value.match(/^(\d+(?:\.\d+)?)\s*([KMG]?)B?$/i);
+  if (!match) fail(`bad size "${value}" (use e.g. 500K, 2M)`);
+  return Math.round(parseFloat(match[1]) * SIZE_UNITS[match[2].toUpperCase()]);
+}
+
+// Folder terms are collected separately: they pick the mailbox rather than filter messages
+type FieldResult = QueryTerm | { type: 'folder'; value: string };
+
+function parseWord(token: { value: string; quoted: boolean }): FieldResult {
+  if (token.quoted && !token.value.includes(':')) return { type: 'text', value: token.value };
+
+  const colon = token.value.indexOf(':');
+  if (colon <= 0) return { type: 'text', value: token.value };
+
+  const field = token.value.slice(0, colon).toLowerCase();
+  const value = token.value.slice(colon + 1);
+  if (!value) fail(`missing value for "${field}:"`);
+
+  if (TEXT_FIELDS[field]) return { type: TEXT_FIELDS[field], value };
+
+  switch (field) {
+    case 'in':
+    case 'folder':
+      return { type: 'folder', value };
+    case 'after':
+    case 'since':
+      return { type: 'after', date: parseDate(value) };
+    case 'before':
+    case 'until':
+      return { type: 'before', date: parseDate(value) };
+    case 'newer_than':
+      return { type: 'after', date: parseAge(value) };
+    case 'older_than':
+      return { type: 'before', date: parseAge(value) };
+    case 'larger':
+      return { type: 'larger', bytes: parseSize(value) };
+    case 'smaller':
+      return { type: 'smaller', bytes: parseSize(value) };
+    case 'has':
+      if (value.toLowerCase() === 'attachment') return { type: 'hasAttachment' };
+      return fail(`unknown "has:${value}" (supported: has:attachment)`);
+    case 'is': {
+      const state = value.toLowerCase();
+      if (state === 'unread') return { type: 'unread' };
+      if (state === 'read') return { type: 'read' };
+      if (state === 'flagged' || state === 'starred') return { type: 'flagged' };
+      return fail(`unknown "is:${value}" (supported: unread, read, flagged, starred)`);
+    }
+    default:
+      // Not a known field (e.g. a URL or time): search it as text
+      return { type: 'text', value: token.value };
+  }
+}
+
+class Parser {
+  private pos = 0;
+  folder?: string;
+
+  constructor(private tokens: Token[]) {}
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  parse(): QueryNode | null {
+    if (this.tokens.length === 0) return null;
+    const node = this.parseOr(0);
+    if (this.pos < this.tokens.length) fail('unexpected ")"');
+    return node;
+  }
+
+  private parseOr(depth: number): QueryNode | null {
+    const folderBefore = this.folder;
+    const children = [this.parseAnd(depth)];
+    while (this.peek()?.kind === 'or') {
+      this.pos++;
+      children.push(this.parseAnd(depth + 1));
+    }
+    if (children.length > 1 && this.folder !== folderBefore) fail('"in:" cannot be used inside OR');
+    return this.combine('or', children);
+  }
+
+  private parseAnd(depth: number): QueryNode | null {
+    const children: (QueryNode | null)[] = [];
+    for (;;) {
+      const token = this.peek();
+      if (!token || token.kind === 'rparen' || token.kind === 'or') break;
+      if (token.kind === 'and') {
+        this.pos++;
+        continue;
+      }
+      children.push(this.parseUnary(depth));
+    }
+    if (children.length === 0) fail('expected a search term');
+    return this.combine('and', children);
+  }
+
+  private parseUnary(depth: number): QueryNode | null {
+    const token = this.peek();
+    if (token?.kind === 'not') {
+      this.pos++;
+      const child = this.parseUnary(depth + 1);
+      if (!child) fail('"in:" cannot be negated');
+      return { type: 'not', child };
+    }
+    return this.parsePrimary(depth);
+  }
+
+  private parsePrimary(depth: number): QueryNode | null {
+    const token = this.tokens[this.pos++];
+    if (!token) fail('unexpected end of query');
+
+    if (token.kind === 'lparen') {
+      const node = this.parseOr(depth);
+      if (this.tokens[this.pos++]?.kind !== 'rparen') fail('missing ")"');
+      return node;
+    }
+    if (token.kind !== 'word') fail(`unexpected "${token.kind.toUpperCase()}"`);
+
+    const term = parseWord(token);
+    if (term.type !== 'folder') return term;
+
+    if (depth > 0) fail('"in:" may only be combined with AND at the top level');
+    if (this.folder && this.folder !== term.value) fail('only one "in:" folder is allowed');
+    this.folder = term.value;
+    return null;
+  }
+
+  // null children are folder terms that were lifted out of the tree
+  private combine(type: 'and' | 'or', children: (QueryNode | null)[]): QueryNode | null {
+    const nodes = children.filter((c): c is QueryNode => c !== null);
+    if (nodes.length === 0) return null;
+    if (nodes.length === 1) return nodes[0];
+    return { type, children: nodes };
+  }
+}
+
+export function parseQuery(input = ''): ParsedQuery {
+  const parser = new Parser(tokenize(input));
+  const node = parser.parse();
+  return { node, folder: parser.folder };
+}
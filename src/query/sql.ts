@@ -0,0 +1,96 @@
+import { QueryNode, QueryTerm } from './parser.js';
+
+// Compiles against the local cache schema (cache/store.ts): `m` is the messages table,
+// messages_fts is its FTS5 index over subject, sender, recipients and body.
+export interface SqlQuery {
+  where: string;
+  params: (string | number)[];
+}
+
+// FTS5 phrase: quoted so punctuation and operators in the value are matched literally
+function ftsPhrase(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+function ftsMatch(expression: string, params: (string | number)[]): string {
+  params.push(expression);
+  return 'm.rowid IN (SELECT rowid FROM messages_fts WHERE messages_fts MATCH ?)';
+}
+
+// Addresses match on substrings ("bob" finds bob@example.com), like the providers do
+function like(column: string, value: string, params: (string | number)[]): string {
+  params.push(`%${value.replace(/[\\%_]/g, (c) => `\\${c}`)}%`);
+  return `${column} LIKE ? ESCAPE '\\'`;
+}
+
+// Gmail keeps inbox tabs as system labels, and calls the Primary tab "personal"
+function gmailCategoryLabel(value: string): string {
+  const tab = value.toLowerCase() === 'primary' ? 'personal' : value;
+  return `CATEGORY_${tab.toUpperCase()}`;
+}
+
+function termSql(term: QueryTerm, params: (string | number)[], provider?: string): string | null {
+  switch (term.type) {
+    case 'from':
+      return like('m.sender', term.value, params);
+    case 'to':
+      return like('m.recipients', term.value, params);
+    case 'cc':
+      return like('m.cc', term.value, params);
+    case 'subject':
+      return ftsMatch(`subject : ${ftsPhrase(term.value)}`, params);
+    case 'body':
+      return ftsMatch(`body : ${ftsPhrase(term.value)}`, params);
+    case 'text':
+      return ftsMatch(ftsPhrase(term.value), params);
+    case 'label':
+    case 'category':
+      params.push(term.type === 'category' && provider === 'gmail' ? gmailCategoryLabel(term.value) : term.value);
+      return 'EXISTS (SELECT 1 FROM json_each(m.labels) WHERE lower(json_each.value) = lower(?))';
+    case 'after':
+      params.push(term.date.getTime());
+      return 'm.date >= ?';
+    case 'before':
+      params.push(term.date.getTime());
+      return 'm.date < ?';
+    case 'hasAttachment':
+      return 'm.has_attachments = 1';
+    case 'unread':
+      return 'm.is_unread = 1';
+    case 'read':
+      return 'm.is_unread = 0';
+    case 'flagged':
+      return 'm.is_flagged = 1';
+    case 'larger':
+    case 'smaller':
+      // Message size is not cached
+      return null;
+  }
+}
+
+function compile(node: QueryNode, params: (string | number)[], provider?: string): string | null {
+  switch (node.type) {
+    case 'and':
+    case 'or': {
+      const parts = node.children.map((c) => compile(c, params, provider));
+      if (parts.includes(null)) return null;
+      return `(${parts.join(` ${node.type.toUpperCase()} `)})`;
+    }
+    case 'not': {
+      const inner = compile(node.child, params, provider);
+      return inner === null ? null : `NOT (${inner})`;
+    }
+    default:
+      return termSql(node, params, provider);
+  }
+}
+
+// Returns null when the query needs data the cache does not hold, so the caller searches live.
+// provider is the cached account's provider name, for terms whose stored form differs by provider.
+export function toSqlQuery(node: QueryNode | null, provider?: string): SqlQuery | null {
+  if (!node) return { where: '1 = 1', params: [] };
+
+  const params: (string | number)[] = [];
+  const where = compile(node, params, provider);
+  return where === null ? null : { where, params };
+}
@@ -0,0 +1,128 @@
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { htmlToText } from './providers/compose.js';
+import { Attachment, UnifiedEmail } from './types.js';
+
+/**
+ * mail:// resource URIs and their markdown rendering.
+ *
+ *   mail://{accountId}/{folder}                                       recent messages in a folder
+ *   mail://{accountId}/message/{emailId}                              one message
+ *   mail://{accountId}/message/{emailId}/attachment/{attachmentId}    attachment (blob)
+ *
+ * Every segment is URI-encoded, so folders such as "[Gmail]/Sent Mail" stay one segment.
+ */
+
+const SCHEME = 'mail://';
+
+export type MailUri =
+  | { kind: 'folder'; accountId: string; folder: string }
+  | { kind: 'message'; accountId: string; emailId: string }
+  | { kind: 'attachment'; accountId: string; emailId: string; attachmentId: string };
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'mail://{accountId}/{folder}',
+    name: 'Mailbox folder',
+    description: 'Most recent messages in a folder of an account',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'mail://{accountId}/message/{emailId}',
+    name: 'Email message',
+    description: 'A single email with headers, body and attachment links',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'mail://{accountId}/message/{emailId}/attachment/{attachmentId}',
+    name: 'Email attachment',
+    description: 'Attachment content as a blob',
+  },
+];
+
+export function folderUri(accountId: string, folder: string): string {
+  return `${SCHEME}${encodeURIComponent(accountId)}/${encodeURIComponent(folder)}`;
+}
+
+export function messageUri(accountId: string, emailId: string): string {
+  return `${SCHEME}${encodeURIComponent(accountId)}/message/${encodeURIComponent(emailId)}`;
+}
+
+export function attachmentUri(accountId: string, emailId: string, attachmentId: string): string {
+  return `${messageUri(accountId, emailId)}/attachment/${encodeURIComponent(attachmentId)}`;
+}
+
+export function parseMailUri(uri: string): MailUri {
+  if (!uri.startsWith(SCHEME)) throw new Error(`Invalid mail URI: ${uri}`);
+
+  let segments: string[];
+  try {
+    segments = uri.slice(SCHEME.length).split('/').map(decodeURIComponent);
+  } catch {
+    throw new Error(`Invalid mail URI: ${uri}`);
+  }
+
+  const [accountId, ...rest] = segments;
+  if (accountId && rest.length === 1 && rest[0]) {
+    return { kind: 'folder', accountId, folder: rest[0] };
+  }
+  if (accountId && rest.length === 2 && rest[0] === 'message' && rest[1]) {
+    return { kind: 'message', accountId, emailId: rest[1] };
+  }
+  if (accountId && rest.length === 4 && rest[0] === 'message' && rest[2] === 'attachment' && rest[1] && rest[3]) {
+    return { kind: 'attachment', accountId, emailId: rest[1], attachmentId: rest[3] };
+  }
+  throw new Error(`Invalid mail URI: ${uri}`);
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export function renderEmail(email: UnifiedEmail, attachments: Attachment[]): string {
+  const lines = [
+    `# ${email.subject || '(no subject)'}`,
+    '',
+    `**From:** ${email.from}  `,
+    `**To:** ${email.to.join(', ')}  `,
+    ...(email.cc?.length ? [`**Cc:** ${email.cc.join(', ')}  `] : []),
+    `**Date:** ${new Date(email.date).toISOString()}  `,
+    `**Account:** ${email.accountName} (${email.accountId})  `,
+  ];
+
+  const state = [
+    email.isUnread ? 'unread' : 'read',
+    ...(email.isFlagged ? ['flagged'] : []),
+    ...(email.importance === 'high' ? ['high importance'] : []),
+  ];
+  lines.push(`**Status:** ${state.join(', ')}  `);
+  if (email.labels?.length) lines.push(`**Labels:** ${email.labels.join(', ')}  `);
+
+  lines.push('', '---', '', (email.body || htmlToText(email.bodyHtml || '')).trim());
+
+  if (attachments.length) {
+    lines.push('', '## Attachments', '');
+    for (const att of attachments) {
+      const uri = attachmentUri(email.accountId, email.id, att.id);
+      lines.push(`- [${att.filename || att.id}](${uri}) (${att.mimeType}, ${formatSize(att.size)})`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export function renderFolder(accountName: string, folder: string, emails: UnifiedEmail[]): string {
+  const lines = [`# ${accountName} / ${folder}`, ''];
+  if (!emails.length) lines.push('_No messages._');
+
+  for (const email of emails) {
+    const marker = email.isUnread ? '**' : '';
+    lines.push(
+      `- ${marker}${email.subject || '(no subject)'}${marker} — ${email.from}, ` +
+        `${new Date(email.date).toISOString()} (${messageUri(email.accountId, email.id)})`
+    );
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,1280 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  CompleteRequestSchema,
+  Resource,
+  Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import { AccountManager } from './account-manager.js';
+import { MailWatcher } from './watcher.js';
+import { PolicyEnforcer, isReadTool } from './policy.js';
+import { ConfirmationGate, PreviewTarget } from './confirmation.js';
+import { AuditLog } from './audit.js';
+import { describeError, errorInfo, InvalidRequestError, NotFoundError, UnsupportedError } from './errors.js';
+import { RESOURCE_TEMPLATES, folderUri, parseMailUri, renderEmail, renderFolder } from './resources.js';
+import { completeArgument, getPrompt, listPrompts } from './prompts.js';
+import { confineAttachmentPaths } from './providers/mime.js';
+import {
+  AccountConfig,
+  AccountOutcome,
+  BulkActionType,
+  BulkTarget,
+  DraftOptions,
+  OutgoingAttachment,
+  UnifiedBulkItemResult,
+} from './types.js';
+
+const logger = {
+  info: (...args: unknown[]) => console.error('[MCP]', ...args),
+  error: (...args: unknown[]) => console.error('[MCP ERROR]', ...args),
+};
+
+const WATCH_INTERVAL_MS = parseInt(process.env.MAIL_WATCH_INTERVAL || '30') * 1000;
+const FOLDER_RESOURCE_SIZE = 25;
+const BULK_ACTIONS: BulkActionType[] = ['read', 'unread', 'move', 'label', 'delete', 'archive'];
+const MAX_BULK_ITEMS = 1000;
+
+const ATTACHMENTS_SCHEMA = {
+  type: 'array',
+  description: 'Attachments. Set contentId to embed an image inline and reference it as cid:<contentId> in an HTML body',
+  items: {
+    type: 'object',
+    properties: {
+      filename: { type: 'string', description: 'File name (defaults to the basename of path)' },
+      path: { type: 'string', description: 'File path on the server (within ATTACHMENTS_DIR when one is set)' },
+      content: { type: 'string', description: 'Base64-encoded content (alternative to path)' },
+      mimeType: { type: 'string', description: 'MIME type (detected from filename if omitted)' },
+      contentId: { type: 'string', description: 'Content ID for inline images' },
+    },
+  },
+};
+
+const CONFIRMATION_TOKEN = {
+  type: 'string',
+  description: 'Token from a confirmationRequired response, once the user has approved the preview',
+};
+
+const DRAFT_FIELDS = {
+  to: { type: 'array', items: { type: 'string' }, description: 'Recipients' },
+  subject: { type: 'string', description: 'Subject' },
+  body: { type: 'string', description: 'Body' },
+  cc: { type: 'array', items: { type: 'string' }, description: 'CC' },
+  bcc: { type: 'array', items: { type: 'string' }, description: 'BCC' },
+  isHtml: { type: 'boolean', description: 'HTML email' },
+  attachments: ATTACHMENTS_SCHEMA,
+  inReplyToId: { type: 'string', description: 'Optional: email ID this draft replies to (threads the draft)' },
+};
+
+function toDraftOptions(args: Record<string, unknown> | undefined): DraftOptions {
+  return {
+    to: args?.to as string[],
+    subject: args?.subject as string,
+    body: args?.body as string,
+    cc: args?.cc as string[],
+    bcc: args?.bcc as string[],
+    isHtml: args?.isHtml as boolean,
+    attachments: args?.attachments as OutgoingAttachment[] | undefined,
+    inReplyToId: args?.inReplyToId as string | undefined,
+  };
+}
+
+// Define tools
+const TOOLS: Tool[] = [
+  {
+    name: 'list_accounts',
+    description:
+      'List email accounts with their connection status (connected, degraded, auth-expired, disconnected)',
+    inputSchema: { type: 'object', properties: {} },
+  },
+  {
+    name: 'add_account',
+    description: 'Connect another account until restart (add it to accounts.json to keep it)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        account: {
+          type: 'object',
+          description: 'Account entry as in accounts.json; secrets must be ${ENV_VAR} references, as in the file',
+          properties: {
+            id: { type: 'string', description: 'Account ID' },
+            name: { type: 'string', description: 'Display name' },
+            provider: { type: 'string', enum: ['gmail', 'outlook', 'imap'] },
+            default: { type: 'boolean', description: 'Make this the default account' },
+            config: { type: 'object', description: 'Provider settings' },
+            policy: { type: 'object', description: 'Account policy (defaults to defaultPolicy)' },
+          },
+          required: ['id', 'name', 'provider', 'config'],
+        },
+      },
+      required: ['account'],
+    },
+  },
+  {
+    name: 'remove_account',
+    description: 'Disconnect an account until restart',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountId: { type: 'string', description: 'Account ID' },
+      },
+      required: ['accountId'],
+    },
+  },
+  {
+    name: 'reconnect_account',
+    description: 'Reconnect an account, e.g. after a password change; the old connection stays up if it fails',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountId: { type: 'string', description: 'Account ID' },
+      },
+      required: ['accountId'],
+    },
+  },
+  {
+    name: 'fetch_unread_emails',
+    description: 'Fetch unread emails from ALL accounts (unified inbox)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        maxResultsPerAccount: { type: 'number', description: 'Max emails per account (default: 10)' },
+        accountId: { type: 'string', description: 'Optional: fetch from specific account only' },
+        cursor: { type: 'string', description: 'Optional: nextCursor from the previous page' },
+      },
+    },
+  },
+  {
+    name: 'search_emails',
+    description:
+      'Search emails across ALL accounts with one query syntax for every provider: ' +
+      'from: to: cc: subject: body: "phrase", after:/before:YYYY-MM-DD, newer_than:/older_than:7d, ' +
+      'has:attachment, is:unread|read|flagged, in:<folder>, label:<name>, larger:/smaller:1M, AND/OR/NOT/-, ( )',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Search query, e.g. from:bob is:unread (subject:invoice OR has:attachment)' },
+        maxResults: { type: 'number', description: 'Max results per account' },
+        accountId: { type: 'string', description: 'Optional: search specific account only' },
+        cursor: { type: 'string', description: 'Optional: nextCursor from the previous page (repeat the same query)' },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'get_email',
+    description: 'Get full email content (requires accountId from list results)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountId: { type: 'string', description: 'Account ID the email belongs to' },
+        emailId: { type: 'string', description: 'Email ID' },
+      },
+      required: ['accountId', 'emailId'],
+    },
+  },
+  {
+    name: 'get_thread',
+    description: 'Get every message in a conversation, oldest first (threadId comes from email results)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountId: { type: 'string', description: 'Account ID the thread belongs to' },
+        threadId: { type: 'string', description: 'Thread ID' },
+      },
+      required: ['accountId', 'threadId'],
+    },
+  },
+  {
+    name: 'mark_as_read',
+    description: 'Mark email as read',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountId: { type: 'string', description: 'Account ID' },
+        emailId: { type: 'string', description: 'Email ID' },
+      },
+      required: ['accountId', 'emailId'],
+    },
+  },
+  {
+    name: 'mark_as_unread',
+    description: 'Mark email as unread',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountId: { type: 'string', description: 'Account ID' },
+        emailId: { type: 'string', description: 'Email ID' },
+      },
+      required: ['accountId', 'emailId'],
+    },
+  },
+  {
+    name: 'send_email',
+    description: 'Send email from a specific account',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountId: { type: 'string', description: 'Account to send from (uses default if not specified)' },
+        to: { type: 'array', items: { type: 'string' }, description: 'Recipients' },
+        subject: { type: 'string', description: 'Subject' },
+        body: { type: 'string', description: 'Body' },
+        cc: { type: 'array', items: { type: 'string' }, description: 'CC' },
+        bcc: { type: 'array', items: { type: 'string' }, description: 'BCC' },
+        isHtml: { type: 'boolean', description: 'HTML email' },
+        attachments: ATTACHMENTS_SCHEMA,
+        confirmationToken: CONFIRMATION_TOKEN,
+      },
+      required: ['to', 'subject', 'body'],
+    },
+  },
+  {
+    name: 'reply_email',
+    description: 'Reply (or reply-all) to an email, keeping it in the same conversation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountId: { type: 'string', description: 'Account ID the email belongs to' },
+        emailId: { type: 'string', description: 'Email ID to reply to' },
+        body: { type: 'string', description: 'Reply text (the original message is quoted below it)' },
+        replyAll: { type: 'boolean', description: 'Reply to all original recipients (default: false)' },
+        cc: { type: 'array', items: { type: 'string' }, description: 'Additional CC' },
+        bcc: { type: 'array', items: { type: 'string' }, description: 'BCC' },
+        isHtml: { type: 'boolean', description: 'HTML body' },
+        attachments: ATTACHMENTS_SCHEMA,
+        confirmationToken: CONFIRMATION_TOKEN,
+      },
+      required: ['accountId', 'emailId', 'body'],
+    },
+  },
+  {
+    name: 'forward_email',
+    description: 'Forward an email, including its original attachments',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountId: { type: 'string', description: 'Account ID the email belongs to' },
+        emailId: { type: 'string', description: 'Email ID to forward' },
+        to: { type: 'array', items: { type: 'string' }, description: 'Recipients' },
+        body: { type: 'string', description: 'Optional message above the forwarded content' },
+        cc: { type: 'array', items: { type: 'string' }, description: 'CC' },
+        bcc: { type: 'array', items: { type: 'string' }, description: 'BCC' },
+        isHtml: { type: 'boolean', description: 'HTML body' },
+        attachments: ATTACHMENTS_SCHEMA,
+        confirmationToken: CONFIRMATION_TOKEN,
+      },
+      required: ['accountId', 'emailId', 'to'],
+    },
+  },
+  {
+    name: 'create_draft',
+    description: 'Save an email as a draft for a human to review instead of sending it',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountId: { type: 'string', description: 'Account to create the draft in (uses default if not specified)' },
+        ...DRAFT_FIELDS,
+      },
+      required: ['to', 'subject', 'body'],
+    },
+  },
+  {
+    name: 'update_draft',
+    description: 'Replace the content of an existing draft. Returns the draft ID, which may change (IMAP)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountId: { type: 'string', description: 'Account ID' },
+        draftId: { type: 'string', description: 'Draft ID' },
+        ...DRAFT_FIELDS,
+      },
+      required: ['accountId', 'draftId', 'to', 'subject', 'body'],
+    },
+  },
+  {
+    name: 'list_drafts',
+    description: 'List drafts of an account',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountId: { type: 'string', description: 'Account ID (uses default if not specified)' },
+        maxResults: { type: 'number', description: 'Max drafts (default: 10)' },
+      },
+    },
+  },
+  {
+    name: 'send_draft',
+    description: 'Send an existing draft',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountId: { type: 'string', description: 'Account ID' },
+        draftId: { type: 'string', description: 'Draft ID' },
+        confirmationToken: CONFIRMATION_TOKEN,
+      },
+      required: ['accountId', 'draftId'],
+    },
+  },
+  {
+    name: 'delete_draft',
+    description: 'Discard a draft',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountId: { type: 'string', description: 'Account ID' },
+        draftId: { type: 'string', description: 'Draft ID' },
+        confirmationToken: CONFIRMATION_TOKEN,
+      },
+      required: ['accountId', 'draftId'],
+    },
+  },
+  {
+    name: 'get_all_folders',
+    description: 'Get folders from all accounts',
+    inputSchema: { type: 'object', properties: {} },
+  },
+  {
+    name: 'delete_email',
+    description: 'Move an email to Trash (undo with restore_email). Permanent deletes always need confirmation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountId: { type: 'string', description: 'Account ID' },
+        emailId: { type: 'string', description: 'Email ID' },
+        permanent: { type: 'boolean', description: 'Delete for good instead of moving to Trash (default: false)' },
+        confirmationToken: CONFIRMATION_TOKEN,
+      },
+      required: ['accountId', 'emailId'],
+    },
+  },
+  {
+    name: 'restore_email',
+    description: 'Move an email out of Trash, back to the inbox or another folder',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountId: { type: 'string', description: 'Account ID' },
+        emailId: { type: 'string', description: 'Email ID in Trash (from delete_email or an in:Trash search)' },
+        folderId: { type: 'string', description: 'Destination folder (default: inbox; Gmail: original labels)' },
+      },
+      required: ['accountId', 'emailId'],
+    },
+  },
+  {
+    name: 'empty_trash',
+    description: 'Permanently delete emails in Trash older than a cutoff. Always needs confirmation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountId: { type: 'string', description: 'Account ID' },
+        olderThanDays: { type: 'number', description: 'Only emails older than this many days (default: 30, 0: all)' },
+        confirmationToken: CONFIRMATION_TOKEN,
+      },
+      required: ['accountId'],
+    },
+  },
+  {
+    name: 'move_email',
+    description: 'Move an email to another folder (Gmail: apply the label and remove it from the inbox)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountId: { type: 'string', description: 'Account ID' },
+        emailId: { type: 'string', description: 'Email ID' },
+        folderId: { type: 'string', description: 'Destination folder ID from get_all_folders (Gmail also accepts a label name)' },
+        confirmationToken: CONFIRMATION_TOKEN,
+      },
+      required: ['accountId', 'emailId', 'folderId'],
+    },
+  },
+  {
+    name: 'archive_email',
+    description: "Archive an email (move it to the account's archive folder)",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountId: { type: 'string', description: 'Account ID' },
+        emailId: { type: 'string', description: 'Email ID' },
+        confirmationToken: CONFIRMATION_TOKEN,
+      },
+      required: ['accountId', 'emailId'],
+    },
+  },
+  {
+    name: 'bulk_action',
+    description:
+      'Mark read/unread, move, label, delete (to Trash) or archive many emails at once, given as a list or ' +
+      'as a search query on one account. Returns a result per email',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: { type: 'string', enum: BULK_ACTIONS, description: 'What to do with every email' },
+        items: {
+          type: 'array',
+          description: 'Emails to act on (alternative to query)',
+          items: {
+            type: 'object',
+            properties: {
+              accountId: { type: 'string', description: 'Account ID' },
+              emailId: { type: 'string', description: 'Email ID' },
+            },
+            required: ['accountId', 'emailId'],
+          },
+        },
+        accountId: { type: 'string', description: 'Account to search (with query)' },
+        query: { type: 'string', description: 'Act on the emails matching this search (same syntax as search_emails)' },
+        maxResults: { type: 'number', description: `Most emails a query may select (default: 100, max: ${MAX_BULK_ITEMS})` },
+        folderId: { type: 'string', description: "Destination folder for 'move'" },
+        labels: { type: 'array', items: { type: 'string' }, description: "Labels to add for 'label'" },
+        dryRun: { type: 'boolean', description: 'List the emails that would be affected without changing anything' },
+        confirmationToken: CONFIRMATION_TOKEN,
+      },
+      required: ['action'],
+    },
+  },
+  {
+    name: 'set_flag',
+    description: 'Star/flag or unflag an email for follow-up (Gmail STARRED, Outlook flag, IMAP \\Flagged)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountId: { type: 'string', description: 'Account ID' },
+        emailId: { type: 'string', description: 'Email ID' },
+        flagged: { type: 'boolean', description: 'true to flag, false to clear the flag' },
+        dueDate: { type: 'string', description: 'Optional follow-up due date, ISO 8601 (Outlook only)' },
+      },
+      required: ['accountId', 'emailId', 'flagged'],
+    },
+  },
+  {
+    name: 'add_labels',
+    description: 'Tag an email (Gmail labels, Outlook categories, IMAP keywords). Missing labels are created',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountId: { type: 'string', description: 'Account ID' },
+        emailId: { type: 'string', description: 'Email ID' },
+        labels: { type: 'array', items: { type: 'string' }, description: 'Label names' },
+      },
+      required: ['accountId', 'emailId', 'labels'],
+    },
+  },
+  {
+    name: 'remove_labels',
+    description: 'Remove labels/categories/keywords from an email',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountId: { type: 'string', description: 'Account ID' },
+        emailId: { type: 'string', description: 'Email ID' },
+        labels: { type: 'array', items: { type: 'string' }, description: 'Label names' },
+      },
+      required: ['accountId', 'emailId', 'labels'],
+    },
+  },
+  {
+    name: 'create_label',
+    description: 'Create a label (Gmail label, Outlook master category, IMAP keyword)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountId: { type: 'string', description: 'Account ID' },
+        name: { type: 'string', description: 'Label name' },
+      },
+      required: ['accountId', 'name'],
+    },
+  },
+  {
+    name: 'delete_label',
+    description: 'Delete a label (IMAP: removes the keyword from all inbox messages)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountId: { type: 'string', description: 'Account ID' },
+        name: { type: 'string', description: 'Label name' },
+        confirmationToken: CONFIRMATION_TOKEN,
+      },
+      required: ['accountId', 'name'],
+    },
+  },
+  {
+    name: 'list_attachments',
+    description: 'List attachments of an email (filename, MIME type, size, content ID)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountId: { type: 'string', description: 'Account ID' },
+        emailId: { type: 'string', description: 'Email ID' },
+      },
+      required: ['accountId', 'emailId'],
+    },
+  },
+  {
+    name: 'get_attachment',
+    description: 'Download an attachment. Text-like types return extracted text, others return base64 content',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountId: { type: 'string', description: 'Account ID' },
+        emailId: { type: 'string', description: 'Email ID' },
+        attachmentId: { type: 'string', description: 'Attachment ID from list_attachments' },
+      },
+      required: ['accountId', 'emailId', 'attachmentId'],
+    },
+  },
+  {
+    name: 'subscribe_mailbox',
+    description:
+      'Watch a mailbox for new mail. New messages are pushed as notifications/message (logger "new-mail"; ' +
+      'level "warning" when any is high importance) instead of polling fetch_unread_emails',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountId: { type: 'string', description: 'Optional: watch one account only (default: all accounts)' },
+        folder: { type: 'string', description: 'Folder to watch (default: INBOX)' },
+      },
+    },
+  },
+  {
+    name: 'unsubscribe_mailbox',
+    description: 'Stop watching a mailbox',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountId: { type: 'string', description: 'Optional: one account only (default: all accounts)' },
+        folder: { type: 'string', description: 'Folder (default: INBOX)' },
+      },
+    },
+  },
+  {
+    name: 'get_audit_log',
+    description: 'Query the audit log of mailbox-changing actions, newest first',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        accountId: { type: 'string', description: 'Only entries for this account' },
+        tool: { type: 'string', description: 'Only entries for this tool (e.g. send_email)' },
+        since: { type: 'string', description: 'ISO date/time: entries at or after' },
+        until: { type: 'string', description: 'ISO date/time: entries at or before' },
+        limit: { type: 'number', description: 'Max entries (default: 50, max: 500)' },
+      },
+    },
+  },
+];
+
+// Emails a bulk_action call selects, either listed or found by a query on one account (outside blocked folders)
+async function resolveBulkTargets(
+  manager: AccountManager,
+  policy: PolicyEnforcer,
+  args: Record<string, unknown> | undefined
+): Promise<PreviewTarget[]> {
+  const items = args?.items as BulkTarget[] | undefined;
+  const query = args?.query as string | undefined;
+  if (items && query) throw new InvalidRequestError('Pass either items or query, not both');
+
+  if (items) {
+    if (items.length > MAX_BULK_ITEMS) throw new InvalidRequestError(`At most ${MAX_BULK_ITEMS} items per call`);
+    if (items.some((item) => !item?.accountId || !item?.emailId)) {
+      throw new InvalidRequestError('Every item needs accountId and emailId');
+    }
+    return items.map(({ accountId, emailId }) => ({ accountId, emailId }));
+  }
+
+  if (!query) throw new InvalidRequestError('Pass items or query');
+  const accountId = args?.accountId as string | undefined;
+  if (!accountId) throw new InvalidRequestError('accountId is required with query');
+
+  const limit = Math.min((args?.maxResults as number) || 100, MAX_BULK_ITEMS);
+  const targets: PreviewTarget[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await manager.search(accountId, { query, maxResults: limit - targets.length, cursor });
+    for (const email of await policy.allowedEmails(page.emails)) {
+      targets.push({ accountId, emailId: email.id, from: email.from, subject: email.subject });
+    }
+    cursor = page.nextCursor;
+  } while (cursor && targets.length < limit);
+
+  return targets.slice(0, limit);
+}
+
+function parseDateArg(value: unknown, name: string): Date | undefined {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(value as string);
+  if (isNaN(date.getTime())) throw new InvalidRequestError(`Invalid ${name}: ${value}`);
+  return date;
+}
+
+export interface ServerOptions {
+  // Shared by every session so all mailbox changes land in one log
+  audit?: AuditLog;
+  // Offer add_account and remove_account; these bypass account policies, so they are opt-in
+  accountTools?: boolean;
+  // Where attachment paths must point: a directory, null to refuse paths, undefined for anywhere
+  attachmentsDir?: string | null;
+}
+
+export interface McpSession {
+  server: Server;
+  // Stops the session's mailbox watches and closes its transport
+  close(): Promise<void>;
+}
+
+/**
+ * One MCP server per client session. Accounts (and the cache) are shared through
+ * the AccountManager; subscriptions and notifications belong to the session.
+ */
+export function createServer(manager: AccountManager, options: ServerOptions = {}): McpSession {
+  const { audit, accountTools } = options;
+  const tools = TOOLS.filter(
+    (t) =>
+      (audit || t.name !== 'get_audit_log') && (accountTools || (t.name !== 'add_account' && t.name !== 'remove_account'))
+  );
+  const isOffered = (tool: string) => tools.some((t) => t.name === tool);
+
+  const server = new Server(
+    { name: 'mcp-email-server', version: '2.0.0' },
+    { capabilities: { tools: { listChanged: true }, logging: {}, resources: { subscribe: true, listChanged: true }, prompts: {}, completions: {} } }
+  );
+
+  const policy = new PolicyEnforcer(manager);
+  const confirmations = new ConfirmationGate(manager, server);
+
+  // Folder resources clients subscribed to through resources/subscribe
+  const subscribedResources = new Set<string>();
+
+  // New mail in subscribed mailboxes goes out as logging notifications;
+  // high-importance mail is raised as a warning so clients can surface it
+  const watcher = new MailWatcher(
+    manager,
+    (event) => {
+      const urgent = event.emails.some((e) => e.importance === 'high');
+      server
+        .sendLoggingMessage({
+          level: urgent ? 'warning' : 'notice',
+          logger: 'new-mail',
+          data: {
+            accountId: event.accountId,
+            folder: event.folder,
+            emails: event.emails.map((e) => ({
+              id: e.id,
+              threadId: e.threadId,
+              from: e.from,
+              subject: e.subject,
+              snippet: e.snippet,
+              date: e.date,
+              importance: e.importance,
+            })),
+          },
+        })
+        .catch((error) => logger.error('Failed to send new-mail notification:', error));
+
+      const uri = folderUri(event.accountId, event.folder);
+      if (subscribedResources.has(uri)) {
+        server.sendResourceUpdated({ uri }).catch((error) => logger.error('Failed to send resource update:', error));
+      }
+    },
+    WATCH_INTERVAL_MS
+  );
+
+  // Keep watches on the current connection, and let the client refresh tools and folders
+  const stopAccountEvents = manager.onAccountChange(async (accountId, change) => {
+    if (change === 'disconnecting') return watcher.suspend(accountId);
+    if (change === 'removed') await watcher.drop(accountId);
+    else await watcher.resume(accountId);
+
+    // Not connected yet (or already closed): nothing to notify
+    if (!server.transport) return;
+    await server.sendToolListChanged();
+    await server.sendResourceListChanged();
+  });
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: policy.visibleTools(tools) }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    logger.info(`Tool: ${name}`);
+
+    // Every mailbox-changing call is audited, whether it succeeds or fails
+    let resultId: string | undefined;
+    let bulkResults: UnifiedBulkItemResult[] | undefined;
+    const recordCall = async (outcome: 'success' | 'error', error?: string) => {
+      if (!audit || isReadTool(name)) return;
+      const client = server.getClientVersion();
+      const entry = {
+        tool: name,
+        accountId: (args?.accountId as string | undefined) ?? manager.getAccounts().find((a) => a.isDefault)?.id,
+        arguments: args,
+        outcome,
+        resultId,
+        error,
+        client: client && { name: client.name, version: client.version },
+        sessionId: extra.sessionId,
+      };
+      if (!bulkResults) return audit.record(entry);
+
+      // A bulk action can span accounts: one entry per account, listing the emails it touched there
+      const byAccount = new Map<string, UnifiedBulkItemResult[]>();
+      for (const item of bulkResults) byAccount.set(item.accountId, [...(byAccount.get(item.accountId) || []), item]);
+      for (const [accountId, items] of byAccount) {
+        const failed = items.filter((item) => !item.success).length;
+        const { items: _items, ...rest } = args || {};
+        await audit.record({
+          ...entry,
+          accountId,
+          arguments: { ...rest, emailIds: items.map((item) => item.id) },
+          outcome: failed ? 'error' : 'success',
+          error: failed ? `${failed} of ${items.length} failed` : undefined,
+        });
+      }
+    };
+
+    try {
+      if (!isOffered(name)) throw new InvalidRequestError(`Unknown tool: ${name}`);
+
+      // Account policies apply to every call; unified calls only reach accounts that allow them
+      await policy.authorize(name, args);
+
+      if (args && Array.isArray(args.attachments) && options.attachmentsDir !== undefined) {
+        args.attachments = await confineAttachmentPaths(args.attachments, options.attachmentsDir);
+      }
+
+      let bulkTargets: PreviewTarget[] | undefined;
+      if (policy.needsConfirmation(name, args)) {
+        // A bulk action's emails are resolved first: the preview lists them and the approval covers exactly them
+        if (name === 'bulk_action') bulkTargets = await resolveBulkTargets(manager, policy, args);
+        const pending = await confirmations.check(name, args, bulkTargets);
+        if (pending) return { content: [{ type: 'text', text: pending }] };
+      }
+
+      let result: string;
+
+      switch (name) {
+        case 'list_accounts': {
+          result = JSON.stringify(manager.getAccountStatus(), null, 2);
+          break;
+        }
+
+        case 'add_account': {
+          const account = args?.account as AccountConfig;
+          await manager.addAccount(account);
+          resultId = account.id;
+          result = `Account ${account.id} connected`;
+          break;
+        }
+
+        case 'remove_account': {
+          await manager.removeAccount(args?.accountId as string);
+          result = `Account ${args?.accountId} removed`;
+          break;
+        }
+
+        case 'reconnect_account': {
+          await manager.reconnectAccount(args?.accountId as string);
+          result = `Account ${args?.accountId} reconnected`;
+          break;
+        }
+
+        case 'fetch_unread_emails': {
+          const maxResults = (args?.maxResultsPerAccount as number) || 10;
+          const accountId = args?.accountId as string | undefined;
+          const cursor = args?.cursor as string | undefined;
+
+          let page;
+          if (accountId) {
+            // Single account
+            const acc = manager.getProvider(accountId);
+            const rawPage = await acc.provider.fetchUnread(maxResults, cursor);
+            page = {
+              emails: rawPage.emails.map((e) => ({
+                ...e,
+                accountId,
+                accountName: acc.config.name,
+              })),
+              nextCursor: rawPage.nextCursor,
+              accounts: [{ accountId, status: 'ok' as const }],
+            };
+          } else {
+            // All accounts
+            page = await manager.fetchAllUnread(maxResults, cursor, policy.accountsFor(name, args));
+          }
+          page.emails = await policy.allowedEmails(page.emails);
+
+          result = JSON.stringify(
+            {
+              emails: page.emails.map((e) => ({
+                accountId: e.accountId,
+                accountName: e.accountName,
+                id: e.id,
+                threadId: e.threadId,
+                from: e.from,
+                subject: e.subject,
+                snippet: e.snippet,
+                date: e.date,
+                hasAttachments: e.hasAttachments,
+                isFlagged: e.isFlagged,
+                importance: e.importance,
+              })),
+              nextCursor: page.nextCursor,
+              accounts: page.accounts,
+            },
+            null,
+            2
+          );
+          break;
+        }
+
+        case 'search_emails': {
+          const query = args?.query as string;
+          const maxResults = (args?.maxResults as number) || 10;
+          const accountId = args?.accountId as string | undefined;
+          const cursor = args?.cursor as string | undefined;
+
+          const page = accountId
+            ? {
+                ...(await manager.search(accountId, { query, maxResults, cursor })),
+                accounts: [{ accountId, status: 'ok' }],
+              }
+            : await manager.searchAll({ query, maxResults, cursor }, policy.accountsFor(name, args));
+          page.emails = await policy.allowedEmails(page.emails);
+
+          result = JSON.stringify(
+            {
+              emails: page.emails.map((e) => ({
+                accountId: e.accountId,
+                accountName: e.accountName,
+                id: e.id,
+                threadId: e.threadId,
+                from: e.from,
+                subject: e.subject,
+                snippet: e.snippet,
+                date: e.date,
+                isFlagged: e.isFlagged,
+                importance: e.importance,
+              })),
+              nextCursor: page.nextCursor,
+              accounts: page.accounts,
+            },
+            null,
+            2
+          );
+          break;
+        }
+
+        case 'get_email': {
+          const email = await manager.getMessage(args?.accountId as string, args?.emailId as string);
+          if (email) await policy.checkEmail(email);
+          result = JSON.stringify(email, null, 2);
+          break;
+        }
+
+        case 'get_thread': {
+          const emails = await manager.getThread(args?.accountId as string, args?.threadId as string);
+          result = JSON.stringify(await policy.allowedEmails(emails), null, 2);
+          break;
+        }
+
+        case 'mark_as_read': {
+          await manager.markAsRead(args?.accountId as string, args?.emailId as string);
+          result = `Email marked as read`;
+          break;
+        }
+
+        case 'mark_as_unread': {
+          await manager.markAsUnread(args?.accountId as string, args?.emailId as string);
+          result = `Email marked as unread`;
+          break;
+        }
+
+        case 'send_email': {
+          const id = await manager.sendEmail(args?.accountId as string | undefined, {
+            to: args?.to as string[],
+            subject: args?.subject as string,
+            body: args?.body as string,
+            cc: args?.cc as string[],
+            bcc: args?.bcc as string[],
+            isHtml: args?.isHtml as boolean,
+            attachments: args?.attachments as OutgoingAttachment[] | undefined,
+          });
+          resultId = id;
+          result = `Email sent. ID: ${id}`;
+          break;
+        }
+
+        case 'reply_email': {
+          const id = await manager.replyEmail(args?.accountId as string, args?.emailId as string, {
+            body: args?.body as string,
+            replyAll: args?.replyAll as boolean,
+            cc: args?.cc as string[],
+            bcc: args?.bcc as string[],
+            isHtml: args?.isHtml as boolean,
+            attachments: args?.attachments as OutgoingAttachment[] | undefined,
+          });
+          resultId = id;
+          result = `Reply sent. ID: ${id}`;
+          break;
+        }
+
+        case 'forward_email': {
+          const id = await manager.forwardEmail(args?.accountId as string, args?.emailId as string, {
+            to: args?.to as string[],
+            body: args?.body as string | undefined,
+            cc: args?.cc as string[],
+            bcc: args?.bcc as string[],
+            isHtml: args?.isHtml as boolean,
+            attachments: args?.attachments as OutgoingAttachment[] | undefined,
+          });
+          resultId = id;
+          result = `Email forwarded. ID: ${id}`;
+          break;
+        }
+
+        case 'create_draft': {
+          const id = await manager.createDraft(args?.accountId as string | undefined, toDraftOptions(args));
+          resultId = id;
+          result = `Draft created. ID: ${id}`;
+          break;
+        }
+
+        case 'update_draft': {
+          const id = await manager.updateDraft(args?.accountId as string, args?.draftId as string, toDraftOptions(args));
+          resultId = id;
+          result = `Draft updated. ID: ${id}`;
+          break;
+        }
+
+        case 'list_drafts': {
+          const drafts = await manager.listDrafts(
+            args?.accountId as string | undefined,
+            (args?.maxResults as number) || 10
+          );
+          result = JSON.stringify(
+            drafts.map((d) => ({
+              id: d.id,
+              to: d.message.to,
+              cc: d.message.cc,
+              subject: d.message.subject,
+              snippet: d.message.snippet,
+              date: d.message.date,
+              hasAttachments: d.message.hasAttachments,
+            })),
+            null,
+            2
+          );
+          break;
+        }
+
+        case 'send_draft': {
+          const id = await manager.sendDraft(args?.accountId as string, args?.draftId as string);
+          resultId = id;
+          result = `Draft sent. ID: ${id}`;
+          break;
+        }
+
+        case 'delete_draft': {
+          await manager.deleteDraft(args?.accountId as string, args?.draftId as string);
+          result = `Draft deleted`;
+          break;
+        }
+
+        case 'get_all_folders': {
+          const { folders, accounts } = await manager.getAllFolders(policy.accountsFor(name, args));
+          const allowed = folders.map((f) => ({ ...f, folders: policy.allowedFolders(f.accountId, f.folders) }));
+          result = JSON.stringify({ folders: allowed, accounts }, null, 2);
+          break;
+        }
+
+        case 'delete_email': {
+          const permanent = args?.permanent === true;
+          const trashId = await manager.deleteEmail(args?.accountId as string, args?.emailId as string, permanent);
+          resultId = trashId;
+          if (permanent) result = `Email permanently deleted`;
+          else if (trashId) result = `Email moved to Trash. Trash ID: ${trashId} (undo with restore_email)`;
+          else result = `Email moved to Trash`;
+          break;
+        }
+
+        case 'restore_email': {
+          const id = await manager.restoreEmail(
+            args?.accountId as string,
+            args?.emailId as string,
+            args?.folderId as string | undefined
+          );
+          resultId = id;
+          result = id ? `Email restored. ID: ${id}` : `Email restored`;
+          break;
+        }
+
+        case 'empty_trash': {
+          const olderThanDays = (args?.olderThanDays as number | undefined) ?? 30;
+          const count = await manager.emptyTrash(args?.accountId as string, olderThanDays);
+          result = `Permanently deleted ${count} email(s) from Trash`;
+          break;
+        }
+
+        case 'move_email': {
+          await manager.moveEmail(args?.accountId as string, args?.emailId as string, args?.folderId as string);
+          result = `Email moved`;
+          break;
+        }
+
+        case 'archive_email': {
+          await manager.archiveEmail(args?.accountId as string, args?.emailId as string);
+          result = `Email archived`;
+          break;
+        }
+
+        case 'bulk_action': {
+          const action = args?.action as BulkActionType;
+          if (!BULK_ACTIONS.includes(action)) throw new InvalidRequestError(`Unknown bulk action: ${action}`);
+          const folderId = args?.folderId as string | undefined;
+          const labels = args?.labels as string[] | undefined;
+          if (action === 'move' && !folderId) throw new InvalidRequestError("folderId is required for 'move'");
+          if (action === 'label' && !labels?.length) throw new InvalidRequestError("labels are required for 'label'");
+
+          const targets = bulkTargets ?? (await resolveBulkTargets(manager, policy, args));
+
+          if (args?.dryRun === true) {
+            result = JSON.stringify({ action, dryRun: true, total: targets.length, emails: targets }, null, 2);
+            break;
+          }
+
+          const results = await manager.bulkAction(
+            targets.map(({ accountId, emailId }) => ({ accountId, emailId })),
+            { type: action, folderId, labels }
+          );
+          bulkResults = results;
+          const succeeded = results.filter((r) => r.success).length;
+          result = JSON.stringify(
+            {
+              action,
+              dryRun: false,
+              total: results.length,
+              succeeded,
+              failed: results.length - succeeded,
+              results,
+            },
+            null,
+            2
+          );
+          break;
+        }
+
+        case 'set_flag': {
+          const flagged = args?.flagged as boolean;
+          await manager.setFlag(args?.accountId as string, args?.emailId as string, {
+            flagged,
+            dueDate: args?.dueDate as string | undefined,
+          });
+          result = flagged ? `Email flagged` : `Email unflagged`;
+          break;
+        }
+
+        case 'add_labels': {
+          await manager.addLabels(args?.accountId as string, args?.emailId as string, args?.labels as string[]);
+          result = `Labels added`;
+          break;
+        }
+
+        case 'remove_labels': {
+          await manager.removeLabels(args?.accountId as string, args?.emailId as string, args?.labels as string[]);
+          result = `Labels removed`;
+          break;
+        }
+
+        case 'create_label': {
+          const id = await manager.createLabel(args?.accountId as string, args?.name as string);
+          resultId = id;
+          result = `Label created. ID: ${id}`;
+          break;
+        }
+
+        case 'delete_label': {
+          await manager.deleteLabel(args?.accountId as string, args?.name as string);
+          result = `Label deleted`;
+          break;
+        }
+
+        case 'list_attachments': {
+          const attachments = await manager.listAttachments(args?.accountId as string, args?.emailId as string);
+          result = JSON.stringify(attachments, null, 2);
+          break;
+        }
+
+        case 'get_attachment': {
+          const attachment = await manager.getAttachment(
+            args?.accountId as string,
+            args?.emailId as string,
+            args?.attachmentId as string
+          );
+          result = JSON.stringify(attachment, null, 2);
+          break;
+        }
+
+        case 'subscribe_mailbox': {
+          const folder = (args?.folder as string) || 'INBOX';
+          const accountIds = args?.accountId ? [args.accountId as string] : policy.accountsFor(name, args);
+
+          const accounts: AccountOutcome[] = [];
+          for (const accountId of accountIds) {
+            try {
+              await watcher.subscribe(accountId, folder);
+              accounts.push({ accountId, status: 'ok' });
+            } catch (error) {
+              const { code, message } = errorInfo(error);
+              accounts.push({ accountId, status: 'error', errorCode: code, message });
+            }
+          }
+
+          result = JSON.stringify({ subscriptions: watcher.list(), accounts }, null, 2);
+          break;
+        }
+
+        case 'unsubscribe_mailbox': {
+          const folder = (args?.folder as string) || 'INBOX';
+          const accountIds = args?.accountId ? [args.accountId as string] : policy.accountsFor(name, args);
+
+          for (const accountId of accountIds) {
+            await watcher.unsubscribe(accountId, folder);
+          }
+
+          result = JSON.stringify({ subscriptions: watcher.list() }, null, 2);
+          break;
+        }
+
+        case 'get_audit_log': {
+          if (!audit) throw new UnsupportedError('Audit log is not enabled (set AUDIT_LOG_PATH)');
+          const entries = await audit.query({
+            accountId: args?.accountId as string | undefined,
+            tool: args?.tool as string | undefined,
+            since: parseDateArg(args?.since, 'since'),
+            until: parseDateArg(args?.until, 'until'),
+            limit: Math.min((args?.limit as number) || 50, 500),
+          });
+          result = JSON.stringify(entries, null, 2);
+          break;
+        }
+
+        default:
+          throw new InvalidRequestError(`Unknown tool: ${name}`);
+      }
+
+      await recordCall('success');
+      return { content: [{ type: 'text', text: result }] };
+    } catch (error) {
+      logger.error(`Error:`, error);
+      await recordCall('error', describeError(error));
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ error: errorInfo(error) }, null, 2) }],
+        isError: true,
+      };
+    }
+  });
+
+  // === RESOURCES ===
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const resources: Resource[] = [];
+    const { folders: accountFolders } = await manager.getAllFolders(policy.accountsFor('get_all_folders', {}));
+    for (const { accountId, accountName, folders } of accountFolders) {
+      for (const folder of policy.allowedFolders(accountId, folders)) {
+        resources.push({
+          uri: folderUri(accountId, folder.name),
+          name: `${accountName}: ${folder.name}`,
+          mimeType: 'text/markdown',
+        });
+      }
+    }
+    return { resources };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({ resourceTemplates: RESOURCE_TEMPLATES }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const target = parseMailUri(uri);
+
+    // Resources follow the policy of the equivalent tool
+    switch (target.kind) {
+      case 'folder': {
+        await policy.authorize('search_emails', { accountId: target.accountId });
+        policy.checkFolder(target.accountId, target.folder);
+        const acc = manager.getProvider(target.accountId);
+        const page = await manager.search(target.accountId, { folder: target.folder, maxResults: FOLDER_RESOURCE_SIZE });
+        return {
+          contents: [{ uri, mimeType: 'text/markdown', text: renderFolder(acc.config.name, target.folder, page.emails) }],
+        };
+      }
+
+      case 'message': {
+        await policy.authorize('get_email', { accountId: target.accountId });
+        const email = await manager.getMessage(target.accountId, target.emailId);
+        if (!email) throw new NotFoundError(`Email not found: ${target.emailId}`);
+        await policy.checkEmail(email);
+        const attachments = email.hasAttachments
+          ? await manager.listAttachments(target.accountId, target.emailId)
+          : [];
+        return { contents: [{ uri, mimeType: 'text/markdown', text: renderEmail(email, attachments) }] };
+      }
+
+      case 'attachment': {
+        await policy.authorize('get_attachment', { accountId: target.accountId, emailId: target.emailId });
+        const attachment = await manager.getAttachment(target.accountId, target.emailId, target.attachmentId);
+        const blob = attachment.content ?? Buffer.from(attachment.text || '', 'utf-8').toString('base64');
+        return { contents: [{ uri, mimeType: attachment.mimeType, blob }] };
+      }
+    }
+  });
+
+  // Subscribing to a folder resource starts the same watch as subscribe_mailbox
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const target = parseMailUri(request.params.uri);
+    if (target.kind !== 'folder') {
+      throw new InvalidRequestError('Only folder resources (mail://{accountId}/{folder}) can be subscribed');
+    }
+    await policy.authorize('subscribe_mailbox', { accountId: target.accountId, folder: target.folder });
+
+    await watcher.subscribe(target.accountId, target.folder);
+    subscribedResources.add(folderUri(target.accountId, target.folder));
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    const target = parseMailUri(request.params.uri);
+    if (target.kind !== 'folder') return {};
+
+    subscribedResources.delete(folderUri(target.accountId, target.folder));
+    await watcher.unsubscribe(target.accountId, target.folder);
+    return {};
+  });
+
+  // === PROMPTS ===
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({ prompts: listPrompts(manager.getAccounts()) }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+    getPrompt(request.params.name, request.params.arguments || {}, manager.getAccounts())
+  );
+
+  server.setRequestHandler(CompleteRequestSchema, async (request) => {
+    const { argument } = request.params;
+    const values = completeArgument(argument.name, argument.value, manager.getAccounts());
+    return { completion: { values, total: values.length, hasMore: false } };
+  });
+
+  return {
+    server,
+    close: async () => {
+      stopAccountEvents();
+      await watcher.stopAll();
+      await server.close();
+    },
+  };
+}
@@ -1,6 +1,9 @@
 export interface Email {
   id: string;
   threadId?: string;
+  // Folder the message is in, where the provider reports one (Outlook folder ID, IMAP mailbox);
+  // Gmail messages can sit in several, so their labels say where they are
+  folder?: string;
   from: string;
   to: string[];
   cc?: string[];
@@ -10,14 +13,118 @@ export interface Email {
   bodyHtml?: string;
   date: Date;
   isUnread: boolean;
+  isFlagged?: boolean;
+  importance?: Importance;
   labels?: string[];
   hasAttachments: boolean;
+  // Threading headers (RFC 5322), used to build replies
+  messageId?: string;
+  references?: string[];
+  replyTo?: string[];
+}
+
+export interface Attachment {
+  id: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  contentId?: string;
+  isInline?: boolean;
+}
+
+// Attachment payload: text-like types are decoded into `text`, everything else is base64 `content`
+export interface AttachmentContent extends Attachment {
+  content?: string;
+  text?: string;
+}
+
+export type Importance = 'low' | 'normal' | 'high';
+
+export interface FlagOptions {
+  flagged: boolean;
+  // Follow-up due date (ISO 8601); only Outlook stores it
+  dueDate?: string;
+}
+
+export type BulkActionType = 'read' | 'unread' | 'move' | 'label' | 'delete' | 'archive';
+
+export interface BulkAction {
+  type: BulkActionType;
+  // Destination for 'move'
+  folderId?: string;
+  // Labels to add for 'label'
+  labels?: string[];
+}
+
+export interface BulkItemResult {
+  id: string;
+  success: boolean;
+  error?: string;
+  errorCode?: ErrorCode;
+  // ID after a move, where the provider reports it
+  newId?: string;
+}
+
+export interface BulkTarget {
+  accountId: string;
+  emailId: string;
+}
+
+export interface UnifiedBulkItemResult extends BulkItemResult {
+  accountId: string;
 }
 
 export interface SearchOptions {
   query?: string;
   maxResults?: number;
   folder?: string;
+  // nextCursor from a previous page of the same query
+  cursor?: string;
+}
+
+export interface SearchResult<T extends Email = Email> {
+  emails: T[];
+  nextCursor?: string;
+}
+
+// Results from several accounts, with the outcome for each so failures are not mistaken for "nothing found"
+export interface UnifiedSearchResult extends SearchResult<UnifiedEmail> {
+  accounts: AccountOutcome[];
+}
+
+export interface AccountFolders {
+  accountId: string;
+  accountName: string;
+  folders: Folder[];
+}
+
+export interface UnifiedFoldersResult {
+  folders: AccountFolders[];
+  accounts: AccountOutcome[];
+}
+
+// Flag/label changes on a message the cache already holds
+export interface MessageUpdate {
+  id: string;
+  isUnread?: boolean;
+  isFlagged?: boolean;
+  importance?: Importance;
+  labels?: string[];
+}
+
+// One step of a provider's incremental sync, applied to the local cache in order
+export interface SyncChanges {
+  upserted: Email[];
+  updated: MessageUpdate[];
+  deleted: string[];
+  // When set, every message ID still in the synced mailbox: cached messages not listed are gone
+  retained?: string[];
+  // Opaque provider state, passed back to the next syncChanges call
+  state: string;
+  // More changes can be fetched right away (initial backfill or a long change feed)
+  hasMore: boolean;
+  // The previous state was rejected by the server: discard the account's cached messages first
+  reset?: boolean;
 }
 
 export interface SendOptions {
@@ -28,6 +135,45 @@ export interface SendOptions {
   body: string;
   isHtml?: boolean;
   replyTo?: string;
+  attachments?: OutgoingAttachment[];
+}
+
+export interface DraftOptions extends SendOptions {
+  // Reply context: thread the draft under this email (ID from the same account)
+  inReplyToId?: string;
+}
+
+export interface Draft {
+  id: string;
+  message: Email;
+}
+
+export interface ReplyOptions {
+  body: string;
+  isHtml?: boolean;
+  replyAll?: boolean;
+  cc?: string[];
+  bcc?: string[];
+  attachments?: OutgoingAttachment[];
+}
+
+export interface ForwardOptions {
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  body?: string;
+  isHtml?: boolean;
+  attachments?: OutgoingAttachment[];
+}
+
+// Provide either a local `path` or base64 `content`. Set `contentId` to embed
+// the attachment inline and reference it from an HTML body as `cid:<contentId>`.
+export interface OutgoingAttachment {
+  filename?: string;
+  path?: string;
+  content?: string;
+  mimeType?: string;
+  contentId?: string;
 }
 
 export interface Folder {
@@ -45,6 +191,35 @@ export interface AccountConfig {
   provider: ProviderType;
   default?: boolean;
   config: GmailConfig | OutlookConfig | IMAPConfig;
+  policy?: AccountPolicy;
+  // Overrides the provider's default request limits
+  limits?: SchedulerLimits;
+}
+
+export interface SchedulerLimits {
+  // Requests in flight at once
+  maxConcurrent?: number;
+  // Token bucket: sustained rate and how many requests may go out back to back
+  requestsPerSecond?: number;
+  burst?: number;
+  // Retries after a rate limit or transient failure
+  maxRetries?: number;
+}
+
+// Limits on what MCP clients may do with an account; unset fields do not restrict
+export interface AccountPolicy {
+  // Only tools that read mail
+  readOnly?: boolean;
+  // Tool names the account may be used with
+  allowedTools?: string[];
+  // Every recipient of outgoing mail must be at one of these domains
+  allowedRecipientDomains?: string[];
+  // Upper bound on To + Cc + Bcc per message
+  maxRecipients?: number;
+  // Folders (names or IDs) that may not be listed, searched, read, watched or moved into
+  blockedFolders?: string[];
+  // Sending/destructive tools that only run after a human confirms them
+  requireConfirmation?: string[];
 }
 
 export interface GmailConfig {
@@ -70,8 +245,61 @@ export interface IMAPConfig {
   smtpSecure: boolean;
 }
 
+// Shared by every provider. RATE_LIMITED, TRANSIENT and ACCOUNT_UNAVAILABLE may succeed later;
+// AUTH_EXPIRED and PERMISSION_DENIED need a new sign-in; the others need a different call.
+export type ErrorCode =
+  | 'RATE_LIMITED'
+  | 'AUTH_EXPIRED'
+  | 'NOT_FOUND'
+  | 'TRANSIENT'
+  | 'ACCOUNT_UNAVAILABLE'
+  | 'POLICY_DENIED'
+  | 'PERMISSION_DENIED'
+  | 'INVALID_REQUEST'
+  | 'CONFLICT'
+  | 'UNSUPPORTED'
+  | 'UNKNOWN';
+
+export interface ErrorInfo {
+  code: ErrorCode;
+  message: string;
+  retryAfterSeconds?: number;
+  hint?: string;
+}
+
+// How one account fared in a call that spans accounts
+export interface AccountOutcome {
+  accountId: string;
+  status: 'ok' | 'error';
+  errorCode?: ErrorCode;
+  message?: string;
+}
+
+// connected: working; degraded: connection lost or token refresh failing, being retried;
+// auth-expired: credentials rejected, run mail-agent auth; disconnected: not connected
+export type ConnectionStatus = 'connected' | 'degraded' | 'auth-expired' | 'disconnected';
+
+export interface ConnectionHealth {
+  status: ConnectionStatus;
+  // When the account entered this status
+  since: string;
+  error?: string;
+}
+
+export interface AccountStatus {
+  id: string;
+  name: string;
+  provider: ProviderType;
+  isDefault: boolean;
+  status: ConnectionStatus;
+  since?: string;
+  error?: string;
+}
+
 export interface AccountsFile {
   accounts: AccountConfig[];
+  // Applies to accounts without a policy of their own
+  defaultPolicy?: AccountPolicy;
 }
 
 // Extended Email with account info
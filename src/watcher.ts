@@ -0,0 +1,147 @@
+import { AccountManager } from './account-manager.js';
+import { UnifiedEmail } from './types.js';
+
+const logger = {
+  info: (...args: unknown[]) => console.error('[Watcher]', ...args),
+  error: (...args: unknown[]) => console.error('[Watcher ERROR]', ...args),
+};
+
+export interface MailboxSubscription {
+  accountId: string;
+  folder: string;
+}
+
+export interface NewMailEvent extends MailboxSubscription {
+  emails: UnifiedEmail[];
+}
+
+interface ActiveWatch extends MailboxSubscription {
+  // Set from the start of subscribe(), so a concurrent subscribe finds it while the watch is opening
+  started: Promise<() => Promise<void>>;
+}
+
+/**
+ * Keeps one provider watch per subscribed (account, folder) and reports new mail
+ * through a single callback, which the server turns into MCP notifications.
+ */
+export class MailWatcher {
+  private watches = new Map<string, ActiveWatch>();
+  // Watches stopped while their account reconnects, restarted by resume()
+  private suspended = new Map<string, MailboxSubscription>();
+
+  constructor(
+    private manager: AccountManager,
+    private onMail: (event: NewMailEvent) => void,
+    private pollIntervalMs: number
+  ) {}
+
+  private key(accountId: string, folder: string): string {
+    return `${accountId}\u0000${folder.toLowerCase()}`;
+  }
+
+  async subscribe(accountId: string, folder: string): Promise<void> {
+    const key = this.key(accountId, folder);
+    const existing = this.watches.get(key);
+    if (existing) {
+      await existing.started;
+      return;
+    }
+
+    const watch: ActiveWatch = {
+      accountId,
+      folder,
+      started: this.manager.watchMailbox(
+        accountId,
+        folder,
+        (emails) => this.onMail({ accountId, folder, emails }),
+        this.pollIntervalMs
+      ),
+    };
+    this.watches.set(key, watch);
+    try {
+      await watch.started;
+    } catch (error) {
+      if (this.watches.get(key) === watch) this.watches.delete(key);
+      throw error;
+    }
+    logger.info(`Watching ${accountId}/${folder}`);
+  }
+
+  // Waits for a watch that is still opening; one that never opened has nothing to stop
+  private async stopWatch(watch: ActiveWatch): Promise<void> {
+    let stop: () => Promise<void>;
+    try {
+      stop = await watch.started;
+    } catch {
+      return;
+    }
+    await stop();
+  }
+
+  async unsubscribe(accountId: string, folder: string): Promise<boolean> {
+    const key = this.key(accountId, folder);
+    if (this.suspended.delete(key)) return true;
+    const watch = this.watches.get(key);
+    if (!watch) return false;
+
+    this.watches.delete(key);
+    await this.stopWatch(watch);
+    logger.info(`Stopped watching ${accountId}/${folder}`);
+    return true;
+  }
+
+  // Stop an account's watches before its connection is replaced or removed
+  async suspend(accountId: string): Promise<void> {
+    for (const [key, watch] of this.watches) {
+      if (watch.accountId !== accountId) continue;
+      this.watches.delete(key);
+      this.suspended.set(key, { accountId, folder: watch.folder });
+      try {
+        await this.stopWatch(watch);
+      } catch (error) {
+        logger.error(`Failed to stop watching ${accountId}/${watch.folder}:`, error);
+      }
+    }
+  }
+
+  // Restart suspended watches once the account is connected again
+  async resume(accountId: string): Promise<void> {
+    for (const [key, subscription] of this.suspended) {
+      if (subscription.accountId !== accountId) continue;
+      const { folder } = subscription;
+      this.suspended.delete(key);
+      try {
+        await this.subscribe(accountId, folder);
+      } catch (error) {
+        logger.error(`Failed to resume watching ${accountId}/${folder}:`, error);
+      }
+    }
+  }
+
+  // Forget an account that was removed
+  async drop(accountId: string): Promise<void> {
+    await this.suspend(accountId);
+    for (const [key, subscription] of this.suspended) {
+      if (subscription.accountId === accountId) this.suspended.delete(key);
+    }
+  }
+
+  async stopAll(): Promise<void> {
+    for (const watch of this.watches.values()) {
+      try {
+        await this.stopWatch(watch);
+      } catch (error) {
+        logger.error(`Failed to stop watching ${watch.accountId}/${watch.folder}:`, error);
+      }
+    }
+    this.watches.clear();
+    this.suspended.clear();
+  }
+
+  list(): MailboxSubscription[] {
+    return [...this.watches.values(), ...this.suspended.values()].map(({ accountId, folder }) => ({
+      accountId,
+      folder,
+    }));
+  }
+}
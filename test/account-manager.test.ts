@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { AccountManager } from '../src/account-manager.js';
+import { AuditLog } from '../src/audit.js';
+import { errorCode } from '../src/errors.js';
+import { AccountConfig } from '../src/types.js';
+
+const account: AccountConfig = {
+  id: 'extra',
+  name: 'Extra',
+  provider: 'imap',
+  config: {
+    host: 'imap.example.com',
+    port: 993,
+    user: 'me@example.com',
+    password: '${IMAP_PASSWORD}',
+    tls: true,
+    smtpHost: 'smtp.example.com',
+    smtpPort: 465,
+    smtpSecure: true,
+  },
+};
+
+describe('add_account', () => {
+  it('rejects plaintext secrets like accounts.json does', async () => {
+    const manager = new AccountManager();
+    const plaintext = { ...account, config: { ...account.config, password: 'hunter2' } };
+    await assert.rejects(manager.addAccount(plaintext), (error) => errorCode(error) === 'INVALID_REQUEST');
+  });
+
+  it('rejects environment variable references outside the secrets', async () => {
+    const manager = new AccountManager();
+    const leaky = { ...account, config: { ...account.config, host: '${HOME}.example.com' } };
+    await assert.rejects(manager.addAccount(leaky), (error) => errorCode(error) === 'INVALID_REQUEST');
+  });
+
+  it('reports an account ID that is taken as CONFLICT', async () => {
+    const manager = new AccountManager();
+    Object.assign(manager, { configured: new Map([[account.id, account]]) });
+    await assert.rejects(manager.addAccount(account), (error) => errorCode(error) === 'CONFLICT');
+  });
+
+  it('reports removing an unknown account as NOT_FOUND', async () => {
+    const manager = new AccountManager();
+    await assert.rejects(manager.removeAccount('missing'), (error) => errorCode(error) === 'NOT_FOUND');
+  });
+
+  it('keeps the secrets out of the audit log', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'audit-'));
+    try {
+      const audit = new AuditLog({ path: path.join(dir, 'audit.jsonl') });
+      await audit.record({ tool: 'add_account', arguments: { account }, outcome: 'success' });
+
+      const [entry] = await audit.query({ limit: 1 });
+      const logged = entry.arguments.account as { config: Record<string, unknown> };
+      assert.equal(logged.config.password, '[redacted]');
+      assert.equal(logged.config.host, 'imap.example.com');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeCursor } from '../src/cursor.js';
+import { errorCode, errorInfo } from '../src/errors.js';
+import { GmailProvider } from '../src/providers/gmail.js';
+import { IMAPProvider } from '../src/providers/imap.js';
+import { OutlookProvider } from '../src/providers/outlook.js';
+
+// Resolves to the shared error code the tool result would carry
+async function codeOf(call: () => unknown): Promise<string> {
+  try {
+    await call();
+  } catch (error) {
+    return errorCode(error);
+  }
+  assert.fail('expected the call to throw');
+}
+
+const imapConfig = {
+  host: 'imap.example.com',
+  port: 993,
+  user: 'me@example.com',
+  password: 'secret',
+  tls: true,
+  smtpHost: 'smtp.example.com',
+  smtpPort: 465,
+  smtpSecure: true,
+};
+
+describe('error codes', () => {
+  it('rejects a malformed cursor as INVALID_REQUEST', async () => {
+    assert.equal(await codeOf(() => decodeCursor('not a cursor')), 'INVALID_REQUEST');
+  });
+
+  it('rejects IMAP keywords with spaces as INVALID_REQUEST', async () => {
+    const provider = new IMAPProvider(imapConfig);
+    assert.equal(await codeOf(() => provider.addLabels('1', ['needs reply'])), 'INVALID_REQUEST');
+  });
+
+  it('reports a missing IMAP special-use mailbox as NOT_FOUND', async () => {
+    const provider = new IMAPProvider(imapConfig);
+    const imap = {
+      state: 'authenticated',
+      getBoxes: (callback: (err: Error | null, boxes: unknown) => void) =>
+        callback(null, { INBOX: { attribs: [], delimiter: '/', children: null } }),
+    };
+    Object.assign(provider, { imap });
+    assert.equal(await codeOf(() => provider.archiveEmail('1')), 'NOT_FOUND');
+  });
+
+  it('reports a permanent Gmail delete without the full scope as PERMISSION_DENIED', async () => {
+    const provider = new GmailProvider({ credentialsPath: '', tokenPath: '' });
+    const forbidden = Object.assign(new Error('Insufficient Permission'), { response: { status: 403 } });
+    const gmail = {
+      users: {
+        messages: {
+          delete: async () => {
+            throw forbidden;
+          },
+        },
+      },
+    };
+    Object.assign(provider, { gmail });
+
+    assert.equal(await codeOf(() => provider.deleteEmail('abc', true)), 'PERMISSION_DENIED');
+    const info = errorInfo(await provider.deleteEmail('abc', true).catch((error) => error));
+    assert.match(info.hint || '', /mail-agent auth/);
+  });
+
+  it('rejects downloading an Outlook item attachment as INVALID_REQUEST', async () => {
+    const provider = new OutlookProvider({ clientId: '', clientSecret: '', tenantId: '', tokenPath: '' });
+    const client = { api: () => ({ get: async () => ({ '@odata.type': '#microsoft.graph.itemAttachment' }) }) };
+    Object.assign(provider, { client });
+    assert.equal(await codeOf(() => provider.getAttachment('msg', 'att')), 'INVALID_REQUEST');
+  });
+});
@@ -0,0 +1,186 @@
+import { EventEmitter } from 'node:events';
+
+// In-memory stand-in for a node-imap connection: just enough of SELECT, SEARCH, FETCH,
+// STORE and MOVE for IMAPProvider, with mailboxes of plain text messages.
+
+interface FakeMessage {
+  uid: number;
+  subject: string;
+  messageId: string;
+  flags: string[];
+  // Message-ID this one replies to, sent as In-Reply-To and References
+  inReplyTo?: string;
+}
+
+interface FakeMailbox {
+  uidvalidity: number;
+  uidnext: number;
+  attribs: string[];
+  messages: FakeMessage[];
+}
+
+type Callback<T = void> = (err: Error | null, result?: T) => void;
+
+// Special-use attributes for the usual mailbox names
+const SPECIAL_USE: Record<string, string> = { Archive: '\\Archive', Trash: '\\Trash', Drafts: '\\Drafts' };
+
+export class FakeImap extends EventEmitter {
+  state = 'authenticated';
+  private mailboxes = new Map<string, FakeMailbox>();
+  private selected: FakeMailbox | null = null;
+  private nextMessageId = 1;
+
+  // Mailbox name -> subjects of its messages, which get UIDs 1, 2, ...
+  constructor(contents: Record<string, string[]>) {
+    super();
+    for (const [name, subjects] of Object.entries(contents)) {
+      const mailbox: FakeMailbox = { uidvalidity: 1, uidnext: 1, attribs: [], messages: [] };
+      if (SPECIAL_USE[name]) mailbox.attribs.push(SPECIAL_USE[name]);
+      this.mailboxes.set(name, mailbox);
+      for (const subject of subjects) this.add(mailbox, subject, []);
+    }
+  }
+
+  // The messages of a mailbox, for assertions
+  messages(name: string): FakeMessage[] {
+    return this.mailboxes.get(name)!.messages;
+  }
+
+  // A new arrival, announced to an IDLE connection the way the server would
+  deliver(name: string, subject: string): void {
+    this.add(this.mailboxes.get(name)!, subject, []);
+    this.emit('mail', 1);
+  }
+
+  // A reply filed in a mailbox without an arrival notice, the way a sent copy is saved
+  file(name: string, subject: string, inReplyTo: string): void {
+    this.add(this.mailboxes.get(name)!, subject, ['\\Seen'], undefined, inReplyTo);
+  }
+
+  private add(mailbox: FakeMailbox, subject: string, flags: string[], messageId?: string, inReplyTo?: string): void {
+    messageId ??= `<${this.nextMessageId++}@example.com>`;
+    mailbox.messages.push({ uid: mailbox.uidnext++, subject, messageId, flags, inReplyTo });
+  }
+
+  private get box(): FakeMailbox {
+    if (!this.selected) throw new Error('No mailbox selected');
+    return this.selected;
+  }
+
+  private find(uids: number[]): FakeMessage[] {
+    return this.box.messages.filter((m) => uids.includes(m.uid));
+  }
+
+  openBox(name: string, _readOnly: boolean, callback: Callback<object>): void {
+    const mailbox = this.mailboxes.get(name);
+    if (!mailbox) return callback(new Error(`Mailbox doesn't exist: ${name}`));
+    this.selected = mailbox;
+    callback(null, { name, uidvalidity: mailbox.uidvalidity, uidnext: mailbox.uidnext, permFlags: ['\\*'], flags: [] });
+  }
+
+  getBoxes(callback: Callback<object>): void {
+    const boxes = Object.fromEntries(
+      [...this.mailboxes].map(([name, mailbox]) => [name, { attribs: mailbox.attribs, delimiter: '/', children: null }])
+    );
+    callback(null, boxes);
+  }
+
+  serverSupports(): boolean {
+    return false;
+  }
+
+  // Criteria are ANDed; covers what the provider and the query compiler emit in these tests
+  search(criteria: unknown[], callback: Callback<number[]>): void {
+    const matches = (message: FakeMessage, criterion: unknown): boolean => {
+      if (criterion === 'ALL') return true;
+      if (criterion === 'UNSEEN') return !message.flags.includes('\\Seen');
+      if (criterion === 'SEEN') return message.flags.includes('\\Seen');
+      const [key, ...values] = criterion as [string, ...string[]];
+      if (key === 'UID') return this.inSet(message.uid, values[0]);
+      if (key === 'OR') return matches(message, values[0]) || matches(message, values[1]);
+      if (key === 'HEADER' && values[0] === 'MESSAGE-ID') return message.messageId === values[1];
+      if (key === 'HEADER' && ['REFERENCES', 'IN-REPLY-TO'].includes(values[0])) return message.inReplyTo === values[1];
+      if (key === 'SUBJECT') return message.subject.toLowerCase().includes(values[0].toLowerCase());
+      throw new Error(`Unsupported search criterion: ${JSON.stringify(criterion)}`);
+    };
+    const uids = this.box.messages.filter((m) => criteria.every((c) => matches(m, c))).map((m) => m.uid);
+    callback(null, uids);
+  }
+
+  private inSet(uid: number, set: string): boolean {
+    return set.split(',').some((part) => {
+      const [from, to] = part.split(':');
+      const high = to === '*' ? Infinity : Number(to ?? from);
+      return uid >= Number(from) && uid <= high;
+    });
+  }
+
+  fetch(source: number[] | string, _options: object): EventEmitter {
+    const fetch = new EventEmitter();
+    const uids = Array.isArray(source) ? source : this.box.messages.map((m) => m.uid);
+    const messages = this.find(uids);
+    setImmediate(() => {
+      for (const message of messages) {
+        const msg = new EventEmitter();
+        fetch.emit('message', msg);
+        const stream = new EventEmitter();
+        msg.emit('body', stream);
+        stream.emit('data', Buffer.from(this.raw(message)));
+        msg.emit('attributes', { uid: message.uid, flags: [...message.flags] });
+        msg.emit('end');
+      }
+      fetch.emit('end');
+    });
+    return fetch;
+  }
+
+  private raw(message: FakeMessage): string {
+    return [
+      'From: sender@example.com',
+      'To: me@example.com',
+      `Subject: ${message.subject}`,
+      `Message-ID: ${message.messageId}`,
+      ...(message.inReplyTo ? [`In-Reply-To: ${message.inReplyTo}`, `References: ${message.inReplyTo}`] : []),
+      'Date: Mon, 1 Jan 2024 10:00:00 +0000',
+      '',
+      `Body of ${message.subject}`,
+    ].join('\r\n');
+  }
+
+  addFlags(uids: number[], flags: string[], callback: Callback): void {
+    for (const message of this.find(uids)) message.flags = [...new Set([...message.flags, ...flags])];
+    callback(null);
+  }
+
+  delFlags(uids: number[], flags: string[], callback: Callback): void {
+    for (const message of this.find(uids)) message.flags = message.flags.filter((f) => !flags.includes(f));
+    callback(null);
+  }
+
+  addKeywords(uids: number[], keywords: string[], callback: Callback): void {
+    this.addFlags(uids, keywords, callback);
+  }
+
+  delKeywords(uids: number[], keywords: string[], callback: Callback): void {
+    this.delFlags(uids, keywords, callback);
+  }
+
+  move(uids: number[], name: string, callback: Callback): void {
+    const target = this.mailboxes.get(name);
+    if (!target) return callback(new Error(`Mailbox doesn't exist: ${name}`));
+    for (const message of this.find(uids)) {
+      this.box.messages.splice(this.box.messages.indexOf(message), 1);
+      this.add(target, message.subject, message.flags, message.messageId, message.inReplyTo);
+    }
+    callback(null);
+  }
+
+  expunge(callback: Callback): void {
+    this.box.messages = this.box.messages.filter((m) => !m.flags.includes('\\Deleted'));
+    callback(null);
+  }
+
+  end(): void {
+    this.state = 'disconnected';
+  }
+}
@@ -0,0 +1,72 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { AccountManager } from '../src/account-manager.js';
+import { startHttpServer } from '../src/http.js';
+
+const TOKEN_A = 'a'.repeat(32);
+const TOKEN_B = 'b'.repeat(32);
+const IDLE_MS = 200;
+
+describe('HTTP sessions', () => {
+  let server: Server;
+  let url: string;
+
+  before(async () => {
+    server = await startHttpServer(
+      new AccountManager(),
+      {},
+      { host: '127.0.0.1', port: 0, tokens: [TOKEN_A, TOKEN_B], sessionIdleMs: IDLE_MS }
+    );
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  const post = (token: string, body: unknown, sessionId?: string) =>
+    fetch(url, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...(sessionId && { 'Mcp-Session-Id': sessionId }),
+      },
+      body: JSON.stringify(body),
+    });
+
+  const open = async (token: string): Promise<string> => {
+    const response = await post(token, {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1' } },
+    });
+    await response.text();
+    const sessionId = response.headers.get('mcp-session-id');
+    assert.ok(sessionId);
+    return sessionId;
+  };
+
+  const ping = async (token: string, sessionId: string): Promise<number> => {
+    const response = await post(token, { jsonrpc: '2.0', id: 2, method: 'ping' }, sessionId);
+    await response.text();
+    return response.status;
+  };
+
+  it('rejects a session ID presented with another token', async () => {
+    const sessionId = await open(TOKEN_A);
+    assert.equal(await ping(TOKEN_A, sessionId), 200);
+    assert.equal(await ping(TOKEN_B, sessionId), 404);
+  });
+
+  it('closes sessions that stay idle', async () => {
+    const sessionId = await open(TOKEN_A);
+    await new Promise((resolve) => setTimeout(resolve, IDLE_MS * 3));
+    assert.equal(await ping(TOKEN_A, sessionId), 404);
+  });
+});
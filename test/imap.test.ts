@@ -0,0 +1,274 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { AccountManager } from '../src/account-manager.js';
+import { IMAPProvider } from '../src/providers/imap.js';
+import { messageUri } from '../src/resources.js';
+import { createServer } from '../src/server.js';
+import { AccountConfig, AccountPolicy, Email, IMAPConfig } from '../src/types.js';
+import { FakeImap } from './fake-imap.js';
+
+const config: IMAPConfig = {
+  host: 'imap.example.com',
+  port: 993,
+  user: 'me@example.com',
+  password: 'secret',
+  tls: true,
+  smtpHost: 'smtp.example.com',
+  smtpPort: 465,
+  smtpSecure: true,
+};
+
+// INBOX and Archive hold messages with the same UIDs, so a wrong mailbox shows up as the wrong subject
+function connect(): { provider: IMAPProvider; imap: FakeImap } {
+  const imap = new FakeImap({
+    INBOX: ['Inbox one', 'Inbox two'],
+    Archive: ['Archived one', 'Archived two'],
+    Sent: [],
+    Trash: [],
+  });
+  const provider = new IMAPProvider(config);
+  Object.assign(provider, { imap });
+  return { provider, imap };
+}
+
+describe('IMAP message IDs', () => {
+  it('qualifies IDs with the mailbox they were found in', async () => {
+    const { provider } = connect();
+    const { emails } = await provider.search({ query: 'in:Archive' });
+    assert.deepEqual(
+      emails.map((e) => [e.id, e.folder, e.subject]),
+      [
+        ['Archive:2', 'Archive', 'Archived two'],
+        ['Archive:1', 'Archive', 'Archived one'],
+      ]
+    );
+  });
+
+  it('reads a message from the mailbox in its ID', async () => {
+    const { provider } = connect();
+    assert.equal((await provider.getMessage('Archive:1'))?.subject, 'Archived one');
+    // IDs from before mailboxes were part of them are INBOX UIDs
+    assert.equal((await provider.getMessage('1'))?.subject, 'Inbox one');
+  });
+
+  it('returns the Trash ID of a deleted message', async () => {
+    const { provider, imap } = connect();
+    const trashId = await provider.deleteEmail('Archive:2');
+    assert.equal(trashId, 'Trash:1');
+    assert.deepEqual(
+      imap.messages('Archive').map((m) => m.subject),
+      ['Archived one']
+    );
+    assert.equal((await provider.getMessage(trashId!))?.subject, 'Archived two');
+  });
+
+  it('restores a deleted message by its Trash ID', async () => {
+    const { provider, imap } = connect();
+    const trashId = await provider.deleteEmail('Archive:2');
+    const restoredId = await provider.restoreEmail(trashId!, 'Archive');
+    assert.equal(restoredId, 'Archive:3');
+    assert.equal(imap.messages('Trash').length, 0);
+    assert.equal((await provider.getMessage(restoredId!))?.subject, 'Archived two');
+  });
+});
+
+describe('IMAP threads', () => {
+  it('include replies filed outside INBOX', async () => {
+    const { provider, imap } = connect();
+    imap.file('Sent', 'Re: Inbox one', '<1@example.com>');
+    const thread = await provider.getThread('<1@example.com>');
+    assert.deepEqual(
+      thread.map((e) => e.id),
+      ['INBOX:1', 'Sent:1']
+    );
+  });
+});
+
+// An MCP client talking to a server whose only account is the given provider
+async function serve(
+  provider: IMAPProvider,
+  policy?: AccountPolicy
+): Promise<{ client: Client; close: () => Promise<void> }> {
+  const account: AccountConfig = { id: 'work', name: 'Work', provider: 'imap', config, policy };
+  const manager = new AccountManager();
+  Object.assign(manager, {
+    accounts: new Map([[account.id, { config: account, provider }]]),
+    configured: new Map([[account.id, account]]),
+    defaultAccountId: account.id,
+  });
+
+  const session = createServer(manager);
+  const client = new Client({ name: 'test', version: '1' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await session.server.connect(serverTransport);
+  await client.connect(clientTransport);
+  return {
+    client,
+    close: async () => {
+      await client.close();
+      await session.close();
+    },
+  };
+}
+
+describe('bulk_action on IMAP', () => {
+  it('acts on the folder of an in: query only', async () => {
+    const { provider, imap } = connect();
+    const { client, close } = await serve(provider);
+
+    try {
+      const result = await client.callTool({
+        name: 'bulk_action',
+        arguments: { accountId: 'work', query: 'in:Archive is:unread', action: 'read' },
+      });
+      const [content] = result.content as { type: string; text: string }[];
+      const { succeeded, results } = JSON.parse(content.text);
+      assert.equal(succeeded, 2);
+      assert.deepEqual(results.map((r: { id: string }) => r.id).sort(), ['Archive:1', 'Archive:2']);
+
+      assert.ok(imap.messages('Archive').every((m) => m.flags.includes('\\Seen')));
+      assert.ok(imap.messages('INBOX').every((m) => !m.flags.includes('\\Seen')));
+    } finally {
+      await close();
+    }
+  });
+});
+
+describe('confirming a bulk_action query', () => {
+  it('previews the matching emails and runs on exactly those', async () => {
+    const { provider, imap } = connect();
+    const { client, close } = await serve(provider, { requireConfirmation: ['bulk_action'] });
+    const bulkRead = async (confirmationToken?: string) => {
+      const result = await client.callTool({
+        name: 'bulk_action',
+        arguments: { accountId: 'work', query: 'in:Archive is:unread', action: 'read', confirmationToken },
+      });
+      return { isError: result.isError, text: (result.content as { text: string }[])[0].text };
+    };
+
+    try {
+      const { preview, confirmationToken } = JSON.parse((await bulkRead()).text);
+      assert.deepEqual(
+        preview.emails.map((e: { emailId: string; subject: string }) => [e.emailId, e.subject]),
+        [
+          ['Archive:2', 'Archived two'],
+          ['Archive:1', 'Archived one'],
+        ]
+      );
+
+      // The query now matches a third email, which was never approved
+      imap.deliver('Archive', 'Archived three');
+      const stale = await bulkRead(confirmationToken);
+      assert.equal(stale.isError, true);
+      assert.match(stale.text, /request a new preview/);
+      assert.ok(imap.messages('Archive').every((m) => !m.flags.includes('\\Seen')));
+
+      const fresh = JSON.parse((await bulkRead()).text);
+      assert.equal(fresh.preview.emails.length, 3);
+      assert.equal(JSON.parse((await bulkRead(fresh.confirmationToken)).text).succeeded, 3);
+    } finally {
+      await close();
+    }
+  });
+});
+
+describe('IMAP message resources', () => {
+  it('reads a message outside INBOX', async () => {
+    const { provider } = connect();
+    const { client, close } = await serve(provider);
+
+    try {
+      const { contents } = await client.readResource({ uri: messageUri('work', 'Archive:1') });
+      assert.match(String(contents[0].text), /Archived one/);
+    } finally {
+      await close();
+    }
+  });
+});
+
+describe('IMAP watch', () => {
+  it('reports new mail in a folder other than INBOX', async () => {
+    const { provider, imap } = connect();
+    // The watch's own connection sees the same mailboxes
+    Object.assign(provider, { openConnection: async () => imap });
+
+    let received: (emails: Email[]) => void;
+    const arrived = new Promise<Email[]>((resolve) => (received = resolve));
+    const stop = await provider.watch('Archive', (emails) => received(emails));
+    try {
+      imap.deliver('Archive', 'Archived three');
+      const emails = await arrived;
+      assert.deepEqual(
+        emails.map((e) => [e.id, e.subject]),
+        [['Archive:3', 'Archived three']]
+      );
+    } finally {
+      await stop();
+    }
+  });
+});
+
+describe('blocked folders on IMAP', () => {
+  it('hides blocked folders and the messages in them', async () => {
+    const { provider } = connect();
+    const { client, close } = await serve(provider, { blockedFolders: ['archive'] });
+    const text = (result: Awaited<ReturnType<Client['callTool']>>) =>
+      (result.content as { type: string; text: string }[])[0].text;
+
+    try {
+      const folders = JSON.parse(text(await client.callTool({ name: 'get_all_folders', arguments: {} })));
+      assert.deepEqual(
+        folders.folders[0].folders.map((f: { name: string }) => f.name),
+        ['INBOX', 'Sent', 'Trash']
+      );
+
+      const getEmail = (emailId: string) =>
+        client.callTool({ name: 'get_email', arguments: { accountId: 'work', emailId } });
+      const blocked = await getEmail('Archive:1');
+      assert.equal(blocked.isError, true);
+      assert.match(text(blocked), /off limits/);
+
+      assert.equal(JSON.parse(text(await getEmail('INBOX:1'))).subject, 'Inbox one');
+    } finally {
+      await close();
+    }
+  });
+
+  it('refuses tools that act on a message in a blocked folder', async () => {
+    const { provider, imap } = connect();
+    const { client, close } = await serve(provider, { blockedFolders: ['Archive'] });
+    const call = (name: string, args: Record<string, unknown>) =>
+      client.callTool({ name, arguments: { accountId: 'work', ...args } });
+    const refused = async (name: string, args: Record<string, unknown>) => {
+      const result = await call(name, args);
+      assert.equal(result.isError, true);
+      assert.match((result.content as { text: string }[])[0].text, /off limits/);
+    };
+
+    try {
+      await refused('forward_email', { emailId: 'Archive:1', to: ['outside@example.org'] });
+      await refused('mark_as_read', { emailId: 'Archive:1' });
+      await refused('move_email', { emailId: 'Archive:1', folderId: 'INBOX' });
+      await refused('create_draft', { to: ['a@example.com'], inReplyToId: 'Archive:1' });
+      await refused('bulk_action', {
+        items: [
+          { accountId: 'work', emailId: 'INBOX:1' },
+          { accountId: 'work', emailId: 'Archive:2' },
+        ],
+        action: 'read',
+      });
+      assert.deepEqual(
+        [...imap.messages('INBOX'), ...imap.messages('Archive')].map((m) => m.flags),
+        [[], [], [], []]
+      );
+
+      const attachment = `${messageUri('work', 'Archive:1')}/attachment/0`;
+      await assert.rejects(client.readResource({ uri: attachment }), /off limits/);
+      assert.equal((await call('mark_as_read', { emailId: 'INBOX:1' })).isError, undefined);
+    } finally {
+      await close();
+    }
+  });
+});
@@ -0,0 +1,46 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { errorCode } from '../src/errors.js';
+import { confineAttachmentPaths } from '../src/providers/mime.js';
+
+describe('confineAttachmentPaths', () => {
+  let tmp: string;
+  let dir: string;
+
+  before(async () => {
+    tmp = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'attachments-')));
+    dir = path.join(tmp, 'outbox');
+    await fs.mkdir(dir);
+    await fs.writeFile(path.join(dir, 'report.pdf'), 'report');
+    await fs.writeFile(path.join(tmp, 'secret.txt'), 'secret');
+    await fs.symlink(path.join(tmp, 'secret.txt'), path.join(dir, 'link.txt'));
+  });
+
+  after(() => fs.rm(tmp, { recursive: true, force: true }));
+
+  const codeOf = (attachments: { path?: string; content?: string }[], root: string | null) =>
+    confineAttachmentPaths(attachments, root).then(
+      () => 'OK',
+      (error) => errorCode(error)
+    );
+
+  it('resolves paths inside the directory', async () => {
+    const [att] = await confineAttachmentPaths([{ path: 'report.pdf' }], dir);
+    assert.equal(att.path, path.join(dir, 'report.pdf'));
+    assert.equal(att.filename, 'report.pdf');
+  });
+
+  it('refuses paths and symlinks leading out of the directory', async () => {
+    assert.equal(await codeOf([{ path: '../secret.txt' }], dir), 'POLICY_DENIED');
+    assert.equal(await codeOf([{ path: '/etc/passwd' }], dir), 'POLICY_DENIED');
+    assert.equal(await codeOf([{ path: 'link.txt' }], dir), 'POLICY_DENIED');
+  });
+
+  it('refuses every path when path attachments are disabled', async () => {
+    assert.equal(await codeOf([{ path: path.join(dir, 'report.pdf') }], null), 'POLICY_DENIED');
+    assert.equal(await codeOf([{ content: 'aGVsbG8=' }], null), 'OK');
+  });
+});
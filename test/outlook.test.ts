@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { InvalidRequestError } from '../src/errors.js';
+import { OutlookProvider } from '../src/providers/outlook.js';
+import { Email } from '../src/types.js';
+
+// A Graph client that serves canned responses by request path; query options are ignored
+function connect(responses: Record<string, unknown>): OutlookProvider {
+  const provider = new OutlookProvider({ clientId: '', clientSecret: '', tenantId: '', tokenPath: '' });
+  const request = (path: string) => {
+    const chain = {
+      filter: () => chain,
+      select: () => chain,
+      top: () => chain,
+      orderby: () => chain,
+      get: async () => responses[path],
+    };
+    return chain;
+  };
+  Object.assign(provider, { client: { api: request } });
+  return provider;
+}
+
+const message = (id: string, receivedDateTime: string) => ({ id, conversationId: 'conv', receivedDateTime });
+
+describe('Outlook threads', () => {
+  it('follow every page of a long conversation', async () => {
+    const provider = connect({
+      '/me/messages': { value: [message('b', '2024-01-02T00:00:00Z')], '@odata.nextLink': 'page-2' },
+      'page-2': { value: [message('a', '2024-01-01T00:00:00Z')] },
+    });
+    const thread = await provider.getThread('conv');
+    assert.deepEqual(
+      thread.map((e) => e.id),
+      ['a', 'b']
+    );
+  });
+});
+
+describe('Outlook watch', () => {
+  it('reports each message once, including after its sighting is forgotten', async () => {
+    const at = (minutes: number) => new Date(Date.now() + minutes * 60 * 1000).toISOString();
+    // Each delta link answers with the next round; 'a' comes back as a flag change hours after it arrived
+    const provider = connect({
+      '/me/mailFolders/inbox/messages/delta': { value: [], '@odata.deltaLink': 'round-1' },
+      'round-1': { value: [message('a', at(1))], '@odata.deltaLink': 'round-2' },
+      'round-2': { value: [message('b', at(180))], '@odata.deltaLink': 'round-3' },
+      'round-3': { value: [message('a', at(1)), message('c', at(181))], '@odata.deltaLink': 'round-4' },
+      'round-4': { value: [], '@odata.deltaLink': 'round-4' },
+    });
+
+    const batches: string[][] = [];
+    let done: () => void;
+    const finished = new Promise<void>((resolve) => (done = resolve));
+    const stop = await provider.watch(
+      'inbox',
+      (emails: Email[]) => {
+        batches.push(emails.map((e) => e.id));
+        if (batches.length === 3) done();
+      },
+      5
+    );
+    try {
+      await finished;
+      assert.deepEqual(batches, [['a'], ['b'], ['c']]);
+    } finally {
+      await stop();
+    }
+  });
+});
+
+describe('Outlook flags', () => {
+  it('rejects a due date that is not a date', async () => {
+    const provider = connect({});
+    await assert.rejects(provider.setFlag('a', { flagged: true, dueDate: 'next tuesday' }), InvalidRequestError);
+  });
+});
@@ -0,0 +1,16 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseQuery, toSqlQuery } from '../src/query/index.js';
+
+describe('cached category: searches', () => {
+  const paramsOf = (query: string, provider: string) => toSqlQuery(parseQuery(query).node, provider)?.params;
+
+  it('match the category labels Gmail stores', () => {
+    assert.deepEqual(paramsOf('category:social', 'gmail'), ['CATEGORY_SOCIAL']);
+    assert.deepEqual(paramsOf('category:primary', 'gmail'), ['CATEGORY_PERSONAL']);
+  });
+
+  it('match a plain label elsewhere', () => {
+    assert.deepEqual(paramsOf('category:social', 'outlook'), ['social']);
+  });
+});